@@ -1,19 +1,33 @@
-import { ItemView, setIcon } from "obsidian";
+import { ItemView, Menu, setIcon } from "obsidian";
 import type { WorkspaceLeaf } from "obsidian";
 import type { DetectReport, FileEntry } from "./main";
+import type { StagedRecord } from "./staging";
 
 export const ATTACH_VIEW_TYPE = "k-plugin-attachments-view";
 
 type Provider = {
-  detectReport: (force?: boolean) => DetectReport;
+  detectReport: (force?: boolean) => Promise<DetectReport>;
   openFileByPath: (path: string) => Promise<void>;
   applyPlan: () => Promise<void>;
   // New: undo support
   undoLastOperation?: () => Promise<void>;
   canUndo?: () => boolean;
+  openHistory?: () => void;
+  mergeDuplicates?: () => Promise<void>;
+  reviewStaging?: () => Promise<void>;
+  // Staging manifest
+  stagedInfo?: (path: string) => StagedRecord | null;
+  restoreToOrigin?: (path: string, pin: boolean) => Promise<void>;
   // Settings access
   getShowStats?: () => boolean;
   getStagingFolder?: () => string;
+  ownersOf?: (e: FileEntry) => FileEntry["referencedByNotes"];
+  // Pin list
+  pinOf?: (path: string) => string | null;
+  togglePin?: (path: string) => Promise<void>;
+  // Workspace profiles
+  getProfiles?: () => { names: string[]; active: string };
+  switchProfile?: (name: string) => Promise<void>;
 };
 
 type TreeNode =
@@ -28,23 +42,28 @@ type TreeNode =
       entry: FileEntry;
     };
 
-type Mark = "-" | "K" | "B" | "R" | "M" | "C";
+type Mark = "-" | "K" | "B" | "R" | "M" | "C" | "D" | "O" | "P" | "X";
 
 export class AttachView extends ItemView {
   private plugin: Provider;
 
   private report: DetectReport | null = null;
+  // increments per rescan so a slow, older scan can't overwrite a newer one
+  private scanSeq = 0;
   private filterText = "";
   private collapsed = new Set<string>();
 
   // Mark filter: which marks to show (multi-select)
-  private visibleMarks = new Set<string>(["-", "K", "B", "R", "M", "C"]);
+  private visibleMarks = new Set<string>(["-", "K", "B", "R", "M", "C", "D", "O", "P", "X"]);
 
   private previewMode = false;
 
   // Toggle to show/hide action target paths (→ target/path)
   private showActions = false;
 
+  // Toggle to show files left out by include/exclude patterns (mark X)
+  private showExcluded = false;
+
   // Track if all folders are collapsed for toggle button
   private allCollapsed = false;
 
@@ -58,6 +77,7 @@ export class AttachView extends ItemView {
   private elMarkFilterPanel!: HTMLDivElement;
 
   private elHeader!: HTMLDivElement;
+  private elProfile!: HTMLSelectElement;
   private elFilter!: HTMLInputElement;
   private elStats!: HTMLDivElement;
   private elTreeWrap!: HTMLDivElement;
@@ -136,6 +156,7 @@ export class AttachView extends ItemView {
     mkIconBtn("refresh-cw", "Refresh", () => void this.rescan(true));
     mkIconToggle("eye", "Preview mode", () => this.previewMode, (v) => (this.previewMode = v));
     mkIconToggle("arrow-right", "Show action paths", () => this.showActions, (v) => (this.showActions = v));
+    mkIconToggle("filter-x", "Show excluded files", () => this.showExcluded, (v) => (this.showExcluded = v));
 
     const collapseBtn = mkIconBtn("chevrons-down-up", "Collapse/expand all", () => {
       this.toggleCollapseAll();
@@ -152,6 +173,30 @@ export class AttachView extends ItemView {
       }
     });
 
+    mkIconBtn("copy-minus", "Merge duplicates", () => {
+      if (this.plugin.mergeDuplicates) {
+        void this.plugin.mergeDuplicates().then(() => this.rescan(true));
+      }
+    });
+
+    mkIconBtn("trash-2", "Review staging retention", () => {
+      if (this.plugin.reviewStaging) {
+        void this.plugin.reviewStaging().then(() => this.rescan(true));
+      }
+    });
+
+    mkIconBtn("history", "Organizer history", () => {
+      this.plugin.openHistory?.();
+    });
+
+    // Profile switcher (only shown with more than one profile)
+    this.elProfile = this.elHeader.createEl("select", { cls: "dropdown katt-profile-select" });
+    this.elProfile.setAttr("aria-label", "Workspace profile");
+    this.registerDomEvent(this.elProfile, "change", () => {
+      void this.plugin.switchProfile?.(this.elProfile.value);
+    });
+    this.renderProfileSwitcher();
+
     // Search row with filter input + settings toggle (in katt-header, not nav-header)
     const searchRow = this.elHeader.createDiv({ cls: "search-row katt-search-row" });
 
@@ -198,6 +243,10 @@ export class AttachView extends ItemView {
       { mark: "R", label: "Relocate" },
       { mark: "M", label: "Missing" },
       { mark: "C", label: "Conflict" },
+      { mark: "D", label: "Duplicate" },
+      { mark: "O", label: "Referenced outside scope" },
+      { mark: "P", label: "Pinned" },
+      { mark: "X", label: "Excluded" },
     ];
 
     for (const { mark, label } of marks) {
@@ -237,7 +286,7 @@ export class AttachView extends ItemView {
     const nav = this.contentEl.createDiv({ cls: "nav-files-container katt-tree" });
     this.elTreeWrap = nav.createDiv({ cls: "nav-files-container-node" });
 
-    this.rescan(true);
+    void this.rescan(true);
     return Promise.resolve();
   }
 
@@ -246,16 +295,33 @@ export class AttachView extends ItemView {
     return Promise.resolve();
   }
 
-  public rescan(force = false): void {
+  /** Refill the profile dropdown (profiles can change in settings) */
+  private renderProfileSwitcher(): void {
+    const profiles = this.plugin.getProfiles?.();
+    this.elProfile.empty();
+    this.elProfile.toggleClass("is-hidden", !profiles || profiles.names.length < 2);
+    if (!profiles) return;
+
+    for (const name of profiles.names) {
+      this.elProfile.createEl("option", { text: name, value: name });
+    }
+    this.elProfile.value = profiles.active;
+  }
+
+  public async rescan(force = false): Promise<void> {
+    this.renderProfileSwitcher();
+    const seq = ++this.scanSeq;
     this.elTreeWrap.empty();
     this.elStats.setText("Scanning…");
     const t0 = globalThis.performance.now();
-    this.report = this.plugin.detectReport(force);
+    const report = await this.plugin.detectReport(force);
+    if (seq !== this.scanSeq) return;
+    this.report = report;
     const ms = globalThis.performance.now() - t0;
 
     const s = this.report.stats;
     this.elStats.setText(
-      `Notes:${s.notes}  Attach:${s.attachments}  Todo:${s.todo}  Missing:${s.missing}  Conflict:${s.conflicts}  Total:${s.total}  ${ms.toFixed(
+      `Notes:${s.notes}  Attach:${s.attachments}  Todo:${s.todo}  Missing:${s.missing}  Conflict:${s.conflicts}  Dup:${s.duplicates}  Outside:${s.outsideScope}  Pinned:${s.pinned}  Excluded:${s.excluded}  Total:${s.total}  ${ms.toFixed(
         0
       )}ms`
     );
@@ -269,7 +335,10 @@ export class AttachView extends ItemView {
 
     this.elTreeWrap.empty();
 
-    const root = this.buildZonedTree(this.report.entries, this.previewMode ? this.report.preview : []);
+    const root = this.buildZonedTree(
+      this.showExcluded ? [...this.report.entries, ...this.report.excluded] : this.report.entries,
+      this.previewMode ? this.report.preview : []
+    );
     const filtered = this.filterTree(root, this.filterText);
     if (!filtered) return;
 
@@ -281,7 +350,7 @@ export class AttachView extends ItemView {
     this.updateMarkBadges();
   }
 
-  /** Update the small number bubbles on mark buttons (based on report.entries only) */
+  /** Update the small number bubbles on mark buttons (report.entries, plus excluded files for X) */
   private updateMarkBadges(): void {
     if (!this.report) return;
 
@@ -292,6 +361,10 @@ export class AttachView extends ItemView {
       ["R", 0],
       ["M", 0],
       ["C", 0],
+      ["D", 0],
+      ["O", 0],
+      ["P", 0],
+      ["X", this.report.excluded.length],
     ]);
 
     for (const e of this.report.entries) {
@@ -496,6 +569,11 @@ export class AttachView extends ItemView {
       this.render();
     });
 
+    const folderPath = this.vaultPathOf(node);
+    if (folderPath) {
+      this.registerDomEvent(self, "contextmenu", (ev) => this.showPinMenu(ev, folderPath));
+    }
+
     const children = folderEl.createDiv({ cls: "tree-item-children nav-folder-children" });
     if (isCollapsed) return;
 
@@ -533,7 +611,9 @@ export class AttachView extends ItemView {
     if (this.showActions && !e.isPreview && (mark === "B" || mark === "R")) {
       let targetPath: string | null = null;
 
-      if (e.action.type === "moveTo") {
+      if (e.renamed) {
+        targetPath = e.renamed.target;
+      } else if (e.action.type === "moveTo") {
         targetPath = (e.action as { target: string }).target;
       } else if (e.action.type === "moveToB") {
         const fileName = e.path.split("/").pop() ?? e.path;
@@ -549,26 +629,82 @@ export class AttachView extends ItemView {
 
     if (mark === "C") {
       let conflictInfo = e.tags.join(", ");
+      if (e.invalidTarget) {
+        conflictInfo += `\nInvalid placement: ${e.invalidTarget}`;
+      }
       if (e.conflictWith && e.conflictWith.length > 0) {
         conflictInfo += "\nConflicts with:\n" + e.conflictWith.map((p) => "• " + p).join("\n");
       }
       conflictInfo += "\n\nTip: Disable 'Global name check' in settings to ignore.";
       flair.title = conflictInfo;
     } else if (e.isPreview && e.virtualFrom) {
-      flair.title = `Preview target\nFrom: ${e.virtualFrom}\nTo: ${e.path}`;
+      const fromName = e.virtualFrom.split("/").pop() ?? e.virtualFrom;
+      const toName = e.path.split("/").pop() ?? e.path;
+      flair.title =
+        `${e.copyOf ? "Preview copy" : "Preview target"}\nFrom: ${e.virtualFrom}\nTo: ${e.path}` +
+        (e.copyOf ? `\nFor: ${e.referencedByNotes.map((bl) => bl.from).join(", ")}` : "") +
+        (fromName !== toName ? `\nRename: ${fromName} → ${toName}` : "") +
+        (e.action.type === "moveTo" ? `\nPlan: ${e.action.reason}` : "") +
+        (e.noteOverride ? `\nOverride: ${e.noteOverride.value} (from ${e.noteOverride.note})` : "") +
+        (e.order ? `\nStep: ${e.order}` : "") +
+        (e.via ? `\nVia: ${e.via} (swap)` : "") +
+        (e.follows ? `\nFollows: ${e.follows.join(", ")}` : "") +
+        (e.renamed ? `\nReason: ${e.renamed.reason}` : "");
     } else if (mark === "R" && e.action.type === "moveTo") {
       const action = e.action as { target: string; reason?: string };
-      flair.title = `Target: ${action.target}${action.reason ? `\nReason: ${action.reason}` : ""}`;
+      flair.title = `Target: ${e.renamed?.target ?? action.target}${action.reason ? `\nReason: ${action.reason}` : ""}`;
+      if (e.follows) flair.title += `\nFollows: ${e.follows.join(", ")}`;
+      if (e.noteOverride) flair.title += `\nOverride: ${e.noteOverride.value} (from ${e.noteOverride.note})`;
+      if (e.renamed) flair.title += `\n${e.renamed.reason}`;
     } else if (mark === "B" && e.action.type === "moveToB") {
       const action = e.action as { reason?: string };
       const fileName = e.path.split("/").pop() ?? e.path;
       const stagingFolder = this.plugin.getStagingFolder?.() || "Staging";
-      const targetPath = stagingFolder ? `${stagingFolder}/${fileName}` : fileName;
-      flair.title = `Orphan → ${targetPath}${action.reason ? `\nReason: ${action.reason}` : ""}`;
+      const targetPath = e.renamed?.target ?? (stagingFolder ? `${stagingFolder}/${fileName}` : fileName);
+      flair.title = `${e.copies ? "Original" : "Orphan"} → ${targetPath}${action.reason ? `\nReason: ${action.reason}` : ""}`;
+      if (e.renamed) flair.title += `\n${e.renamed.reason}`;
     } else if (mark === "M") {
       flair.title = "Missing file - referenced but not found";
+    } else if (mark === "D") {
+      flair.title = `Duplicate of: ${e.duplicateOf ?? "?"}\nMerge duplicates keeps that copy and redirects links`;
+    } else if (mark === "X") {
+      flair.title = `Excluded: ${e.excludedBy ?? "?"}\nNever scanned or planned`;
+    } else if (mark === "P") {
+      flair.title = `Pinned: ${this.plugin.pinOf?.(e.path) ?? e.path}\nThe organizer leaves it alone`;
+    } else if (mark === "O") {
+      flair.title =
+        "Referenced only by files or link types the scan does not count:\n" +
+        (e.outsideRefs ?? []).slice(0, 5).map((p) => "• " + p).join("\n") +
+        "\nKept in place instead of going to staging";
     } else if (mark === "K") {
       flair.title = `Kept at: ${e.path}`;
+      if (e.noteOverride) flair.title += `\nPinned by ${e.noteOverride.note} (override: ${e.noteOverride.value})`;
+      if (e.referencedByNotes.length > 0 && this.plugin.ownersOf?.(e).length === 0) {
+        const kinds = [...new Set(e.referencedByNotes.map((bl) => (bl.excludedSource ? "excluded note" : bl.source)))].join(", ");
+        flair.title += `\nReferenced without ownership (${kinds}): not an orphan, placement unchanged`;
+      }
+    }
+
+    if (e.copies && !e.copyOf && flair.title) {
+      flair.title += `\nCopies: ${e.copies.map((c) => `${c.target} (${c.notes.length} note(s))`).join(", ")}`;
+    }
+    if (e.nameKept) {
+      flair.title +=
+        `${flair.title ? "\n" : ""}Not renamed: referenced by files the scan does not count (` +
+        `${(e.outsideRefs ?? []).slice(0, 3).join(", ")})`;
+    }
+    if (e.folderConfig && flair.title) {
+      flair.title += `\nFolder config: ${e.folderConfig.sources.join(" → ")} (${e.folderConfig.keys.join(", ")})`;
+    }
+    if (e.classifiedBy) {
+      flair.title += `${flair.title ? "\n" : ""}Attachment note by rule: ${e.classifiedBy}`;
+    }
+    const staged = !e.isPreview && e.zone === "B" ? this.plugin.stagedInfo?.(e.path) : null;
+    if (staged) {
+      flair.title +=
+        `${flair.title ? "\n" : ""}Staged ${new Date(staged.stagedAt).toLocaleString()}` +
+        (staged.origin ? ` from ${staged.origin}` : "") +
+        (staged.reason ? ` (${staged.reason})` : "");
     }
 
     this.registerDomEvent(self, "click", async (ev) => {
@@ -580,13 +716,80 @@ export class AttachView extends ItemView {
       const toOpen = e.isPreview && e.virtualFrom ? e.virtualFrom : e.path;
       await this.plugin.openFileByPath(toOpen);
     });
+
+    if (!e.isPreview && mark !== "M" && mark !== "X") {
+      this.registerDomEvent(self, "contextmenu", (ev) => this.showPinMenu(ev, e.path, staged ?? null));
+    }
+  }
+
+  /** Context menu to pin a file/folder, or remove the pin covering it.
+   * Staged files also show their origin and can be restored there.
+   */
+  private showPinMenu(ev: MouseEvent, path: string, staged: StagedRecord | null = null): void {
+    if (!this.plugin.togglePin) return;
+    ev.preventDefault();
+    ev.stopPropagation();
+
+    const pin = this.plugin.pinOf?.(path) ?? null;
+    const menu = new Menu();
+    if (staged?.origin) {
+      const origin = staged.origin;
+      menu.addItem((item) =>
+        item
+          .setTitle(`Staged from ${origin}`)
+          .setIcon("info")
+          .setDisabled(true)
+      );
+      menu.addItem((item) =>
+        item
+          .setTitle("Restore to origin")
+          .setIcon("undo-2")
+          .onClick(() => {
+            void this.plugin.restoreToOrigin?.(path, false).then(() => this.rescan(true));
+          })
+      );
+      menu.addItem((item) =>
+        item
+          .setTitle("Restore to origin and pin")
+          .setIcon("pin")
+          .onClick(() => {
+            void this.plugin.restoreToOrigin?.(path, true).then(() => this.rescan(true));
+          })
+      );
+      menu.addSeparator();
+    }
+    menu.addItem((item) =>
+      item
+        .setTitle(pin ? (pin === path ? "Unpin" : `Unpin ${pin}`) : "Pin (leave alone)")
+        .setIcon(pin ? "pin-off" : "pin")
+        .onClick(() => {
+          void this.plugin.togglePin?.(path).then(() => this.rescan(true));
+        })
+    );
+    menu.showAtMouseEvent(ev);
+  }
+
+  /** Vault path of a tree folder (zone roots have none) */
+  private vaultPathOf(node: TreeNode & { kind: "folder" }): string | null {
+    const m = /^(?:__zoneA|__zoneB|__zoneCO\/C|__zoneCO\/OUT)\/(.+)$/.exec(node.path);
+    return m ? m[1] : null;
   }
 
-  /** mark rules: - K B R M C */
+  /** mark rules: - K B R M C D O P X */
   private markOf(e: FileEntry): Mark {
+    if (e.tags.includes("excluded")) return "X";
     if (e.kind === "note-md") return "-";
     if (e.tags.includes("missing")) return "M";
-    if (e.tags.includes("conflict-target-occupied") || e.tags.includes("conflict-ambiguous-name")) return "C";
+    if (e.tags.includes("pinned")) return "P";
+    if (
+      e.tags.includes("conflict-target-occupied") ||
+      e.tags.includes("conflict-ambiguous-name") ||
+      e.tags.includes("conflict-invalid-target")
+    ) {
+      return "C";
+    }
+    if (e.tags.includes("duplicate")) return "D";
+    if (e.tags.includes("outside-scope")) return "O";
     if (e.action.type === "keep") return "K";
     if (e.action.type === "moveTo") return "R";
     return "B";
@@ -610,7 +813,7 @@ export class AttachView extends ItemView {
       if (child.kind === "file") {
         if (child.entry.isPreview) continue;
         const m = this.markOf(child.entry);
-        if (m === "B" || m === "R" || m === "C" || m === "M") n++;
+        if (m === "B" || m === "R" || m === "C" || m === "M" || m === "D") n++;
       } else {
         n += this.countTodo(child);
       }
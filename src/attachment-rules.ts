@@ -0,0 +1,79 @@
+/** One line of the attachment rules: which .md files are attachments, not notes.
+ * - `fm:key` frontmatter has the key; `fm:key=value` with that value (lists: any item)
+ * - `tag:name` the file has the tag (nested tags included)
+ * - anything else is a regex tested against the path
+ */
+export type AttachmentRule =
+  | { kind: "path"; text: string; re: RegExp }
+  | { kind: "frontmatter"; text: string; key: string; value?: string }
+  | { kind: "tag"; text: string; tag: string };
+
+/** Parse the rules text (one rule per line); bad regexes come back as errors */
+export function parseAttachmentRules(text: string): { rules: AttachmentRule[]; errors: string[] } {
+  const rules: AttachmentRule[] = [];
+  const errors: string[] = [];
+
+  for (const line of text.split("\n").map((s) => s.trim()).filter(Boolean)) {
+    const fm = /^fm:\s*([^=]+?)\s*(?:=\s*(.*))?$/i.exec(line);
+    if (fm) {
+      const value = fm[2]?.trim();
+      rules.push({ kind: "frontmatter", text: line, key: fm[1].toLowerCase(), value: value || undefined });
+      continue;
+    }
+
+    const tag = /^tag:\s*#?(.+)$/i.exec(line);
+    if (tag) {
+      rules.push({ kind: "tag", text: line, tag: tag[1].trim().toLowerCase() });
+      continue;
+    }
+
+    try {
+      rules.push({ kind: "path", text: line, re: new RegExp(line, "i") });
+    } catch {
+      errors.push(line);
+    }
+  }
+  return { rules, errors };
+}
+
+/** Rules text saved when every line was a regex: lines that would now read as
+ * `fm:`/`tag:` rules are wrapped in `(?:…)`, which matches the same paths as before.
+ */
+export function migrateRegexOnlyRules(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => (/^\s*(fm|tag):/i.test(line) ? `(?:${line.trim()})` : line))
+    .join("\n");
+}
+
+/** ===== Attachment rules =====
+ * First rule that matches the file; frontmatter/tag rules need the metadata cache,
+ * so files not indexed yet only match path rules.
+ */
+export function matchAttachmentRule(
+  rules: AttachmentRule[],
+  path: string,
+  frontmatter: Record<string, unknown> | undefined,
+  tags: string[] // without "#"
+): AttachmentRule | null {
+  for (const rule of rules) {
+    if (rule.kind === "path" && rule.re.test(path)) return rule;
+    if (rule.kind === "frontmatter" && frontmatter && fmMatches(frontmatter, rule.key, rule.value)) return rule;
+    if (rule.kind === "tag" && tags.some((t) => t.toLowerCase() === rule.tag || t.toLowerCase().startsWith(`${rule.tag}/`))) {
+      return rule;
+    }
+  }
+  return null;
+}
+
+function fmMatches(fm: Record<string, unknown>, key: string, value: string | undefined): boolean {
+  const k = Object.keys(fm).find((x) => x.toLowerCase() === key);
+  if (k === undefined) return false;
+  if (value === undefined) return true;
+
+  const v = fm[k];
+  const items = Array.isArray(v) ? (v as unknown[]) : [v];
+  return items.some(
+    (x) => (typeof x === "string" || typeof x === "number" || typeof x === "boolean") && String(x).trim().toLowerCase() === value.toLowerCase()
+  );
+}
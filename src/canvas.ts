@@ -0,0 +1,50 @@
+import type { TFile, Vault } from "obsidian";
+import type { CanvasData } from "obsidian/canvas";
+
+/** ===== Canvas references =====
+ * JSON Canvas files point at vault files through file nodes
+ * ({ "type": "file", "file": "folder/img.png" }); those paths are exact vault paths.
+ */
+export function parseCanvasFileRefs(json: string): string[] {
+  let data: Partial<CanvasData>;
+  try {
+    data = JSON.parse(json) as Partial<CanvasData>;
+  } catch {
+    return [];
+  }
+  if (!data || !Array.isArray(data.nodes)) return [];
+
+  const out = new Set<string>();
+  for (const node of data.nodes) {
+    if (node && node.type === "file" && typeof node.file === "string" && node.file.trim()) {
+      out.add(node.file.trim());
+    }
+  }
+  return [...out];
+}
+
+type CanvasRecord = { mtime: number; refs: string[] };
+
+/** Parsed file refs per canvas, re-read only when the canvas changed */
+export class CanvasRefCache {
+  private vault: Vault;
+  private cache = new Map<string, CanvasRecord>();
+
+  constructor(vault: Vault) {
+    this.vault = vault;
+  }
+
+  /** Refs from the last read of this canvas (sync; may be stale or missing) */
+  peek(path: string): string[] | undefined {
+    return this.cache.get(path)?.refs;
+  }
+
+  async refsOf(file: TFile): Promise<string[]> {
+    const rec = this.cache.get(file.path);
+    if (rec && rec.mtime === file.stat.mtime) return rec.refs;
+
+    const refs = parseCanvasFileRefs(await this.vault.cachedRead(file));
+    this.cache.set(file.path, { mtime: file.stat.mtime, refs });
+    return refs;
+  }
+}
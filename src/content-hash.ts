@@ -0,0 +1,70 @@
+import type { TFile, Vault } from "obsidian";
+
+export type HashRecord = { mtime: number; size: number; hash: string };
+
+/** ===== Content hashes =====
+ * SHA-256 of file contents, cached per path and reused while mtime and size
+ * are unchanged. Hashing is async, so callers warm the cache (`hashAll`)
+ * before synchronous code reads it (`peek`).
+ */
+export class HashCache {
+  private vault: Vault;
+  private cache = new Map<string, HashRecord>();
+
+  constructor(vault: Vault) {
+    this.vault = vault;
+  }
+
+  /** Restore records persisted in plugin data */
+  load(records: Record<string, HashRecord> | undefined): void {
+    const recs = records ?? {};
+    this.cache = new Map(Object.keys(recs).map((k): [string, HashRecord] => [k, recs[k]]));
+  }
+
+  /** Records to persist; entries whose file no longer exists are dropped */
+  toJSON(exists: (path: string) => boolean): Record<string, HashRecord> {
+    const out: Record<string, HashRecord> = {};
+    for (const [path, rec] of this.cache) {
+      if (exists(path)) out[path] = rec;
+    }
+    return out;
+  }
+
+  /** Cached hash if still valid for the file's current stat */
+  peek(file: TFile): string | undefined {
+    const rec = this.cache.get(file.path);
+    if (!rec || rec.mtime !== file.stat.mtime || rec.size !== file.stat.size) return undefined;
+    return rec.hash;
+  }
+
+  async hashOf(file: TFile): Promise<string> {
+    const cached = this.peek(file);
+    if (cached) return cached;
+
+    const buf = await this.vault.readBinary(file);
+    const digest = await globalThis.crypto.subtle.digest("SHA-256", buf);
+    const hash = Array.from(new Uint8Array(digest))
+      .map((b) => `0${b.toString(16)}`.slice(-2))
+      .join("");
+
+    this.cache.set(file.path, { mtime: file.stat.mtime, size: file.stat.size, hash });
+    return hash;
+  }
+
+  /** Hash every file not cached yet; unreadable files are skipped.
+   * Returns how many files were newly hashed.
+   */
+  async hashAll(files: TFile[]): Promise<number> {
+    let n = 0;
+    for (const f of files) {
+      if (this.peek(f)) continue;
+      try {
+        await this.hashOf(f);
+        n++;
+      } catch {
+        // file vanished or can't be read; treat as unhashed
+      }
+    }
+    return n;
+  }
+}
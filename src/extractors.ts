@@ -0,0 +1,150 @@
+import type { TFile, Vault } from "obsidian";
+
+/** One reference found by an extractor.
+ * raw is a link-like path (folder/img.png, ../img.png, img.png); it is resolved
+ * like a note link. mustExist: drop the ref instead of reporting it missing
+ * when it does not resolve (for loose, heuristic matches).
+ */
+export type ExtractedRef = {
+  raw: string;
+  mustExist?: boolean;
+};
+
+/** ===== Reference extractors =====
+ * Find references that Obsidian's metadata cache does not track
+ * (raw HTML, code blocks, other plugins' syntaxes).
+ * Third-party plugins register their own through the plugin's `api`.
+ */
+export type ReferenceExtractor = {
+  id: string;
+  name: string;
+  description?: string;
+  extensions?: string[]; // file extensions to read (default: ["md"])
+  enabledByDefault?: boolean; // when the user has not toggled it yet (default: true)
+  extract: (text: string, file: TFile) => ExtractedRef[] | Promise<ExtractedRef[]>;
+};
+
+const SKIPPED_SCHEMES = /^(?:[a-z][a-z0-9+.-]*:|\/\/|#)/i; // http:, data:, app:, //cdn, #anchor
+
+/** src="..." of media tags and url(...) in inline styles */
+export const htmlExtractor: ReferenceExtractor = {
+  id: "html",
+  name: "HTML tags",
+  description: "src of <img>, <video>, <audio>, <source>, <iframe>, <embed> and url() in inline styles",
+  enabledByDefault: false,
+  extract: (text) => {
+    const out: ExtractedRef[] = [];
+    const push = (value: string) => {
+      const v = value.trim();
+      if (v && !SKIPPED_SCHEMES.test(v)) out.push({ raw: v });
+    };
+
+    const tagRe = /<(?:img|video|audio|source|iframe|embed)\b[^>]*?\bsrc\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi;
+    const urlRe = /\burl\(\s*(?:"([^"]*)"|'([^']*)'|([^)"'\s]+))\s*\)/gi;
+    for (const re of [tagRe, urlRe]) {
+      let m: RegExpExecArray | null;
+      while ((m = re.exec(text)) !== null) push(m[1] ?? m[2] ?? m[3] ?? "");
+    }
+
+    return out;
+  },
+};
+
+/** Path-like tokens inside fenced code blocks (gallery/slides plugins etc.).
+ * Matches are loose, so only files that actually exist count.
+ */
+export const codeBlockExtractor: ReferenceExtractor = {
+  id: "code-block",
+  name: "Code blocks",
+  description: "File paths written inside fenced code blocks; only existing files count",
+  enabledByDefault: false,
+  extract: (text) => {
+    const out: ExtractedRef[] = [];
+    const tokenRe = /[^\s"'`()<>[\]{}|,;=]+\.[A-Za-z0-9]{1,8}(?![A-Za-z0-9])/g;
+
+    let fence: string | null = null;
+    for (const line of text.split("\n")) {
+      const m = /^\s*(`{3,}|~{3,})/.exec(line);
+      if (m) {
+        if (fence === null) fence = m[1];
+        else if (m[1][0] === fence[0] && m[1].length >= fence.length) fence = null;
+        continue;
+      }
+      if (fence === null) continue;
+
+      tokenRe.lastIndex = 0;
+      let t: RegExpExecArray | null;
+      while ((t = tokenRe.exec(line)) !== null) {
+        if (!SKIPPED_SCHEMES.test(t[0])) out.push({ raw: t[0], mustExist: true });
+      }
+    }
+    return out;
+  },
+};
+
+type ExtractRecord = { mtime: number; refs: Map<string, ExtractedRef[]> };
+
+/** Registered extractors plus per-file results, re-read only when the file changed */
+export class ExtractorRegistry {
+  private vault: Vault;
+  private extractors = new Map<string, ReferenceExtractor>();
+  private cache = new Map<string, ExtractRecord>();
+
+  constructor(vault: Vault) {
+    this.vault = vault;
+  }
+
+  /** Add (or replace) an extractor; returns a function that removes it */
+  register(extractor: ReferenceExtractor): () => void {
+    this.extractors.set(extractor.id, extractor);
+    this.cache.clear();
+    return () => {
+      if (this.extractors.get(extractor.id) !== extractor) return;
+      this.extractors.delete(extractor.id);
+      this.cache.clear();
+    };
+  }
+
+  list(): ReferenceExtractor[] {
+    return [...this.extractors.values()];
+  }
+
+  /** Extractors switched on: explicit user choice, else the extractor's default */
+  enabled(toggles: Record<string, boolean>): ReferenceExtractor[] {
+    return this.list().filter((x) => toggles[x.id] ?? x.enabledByDefault ?? true);
+  }
+
+  /** Cached refs of one file (still valid for its mtime) from the given extractors */
+  peek(file: TFile, extractors: ReferenceExtractor[]): ExtractedRef[] {
+    const rec = this.cache.get(file.path);
+    if (!rec || rec.mtime !== file.stat.mtime) return [];
+    const out: ExtractedRef[] = [];
+    for (const x of extractors) out.push(...(rec.refs.get(x.id) ?? []));
+    return out;
+  }
+
+  /** Refs per extractor id for one file; a failing extractor yields nothing */
+  async refsOf(file: TFile, extractors: ReferenceExtractor[]): Promise<Map<string, ExtractedRef[]>> {
+    const cached = this.cache.get(file.path);
+    const rec: ExtractRecord = cached && cached.mtime === file.stat.mtime ? cached : { mtime: file.stat.mtime, refs: new Map() };
+    this.cache.set(file.path, rec);
+
+    const wanted = extractors.filter((x) => (x.extensions ?? ["md"]).includes(file.extension));
+    const missing = wanted.filter((x) => !rec.refs.has(x.id));
+    if (missing.length > 0) {
+      const text = await this.vault.cachedRead(file);
+      for (const x of missing) {
+        try {
+          rec.refs.set(x.id, await x.extract(text, file));
+        } catch {
+          // a broken third-party extractor must not break the scan
+          rec.refs.set(x.id, []);
+        }
+      }
+    }
+
+    const out = new Map<string, ExtractedRef[]>();
+    for (const x of wanted) out.set(x.id, rec.refs.get(x.id) ?? []);
+    return out;
+  }
+}
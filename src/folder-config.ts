@@ -0,0 +1,167 @@
+import type { DataAdapter } from "obsidian";
+import type { GlobalNameCheck, MultiBacklinkPolicy, PlacementPolicy } from "./main";
+
+export const FOLDER_CONFIG_FILE = ".attachment-organizer.json";
+
+/** Settings a folder may override for its subtree */
+export type FolderOverrides = {
+  placement?: Partial<PlacementPolicy>;
+  multiBacklinkPolicy?: MultiBacklinkPolicy;
+  globalNameCheck?: GlobalNameCheck;
+};
+
+export type FolderSettings = {
+  placement: PlacementPolicy;
+  multiBacklinkPolicy: MultiBacklinkPolicy;
+  globalNameCheck: GlobalNameCheck;
+};
+
+/** Effective settings for one folder plus the config files that changed them */
+export type ResolvedFolderSettings = FolderSettings & {
+  sources: string[]; // config file paths, outermost first
+  keys: string[]; // overridden keys, e.g. "placement.mode"
+};
+
+type ConfigRecord = { mtime: number; overrides: FolderOverrides | null; error?: string };
+
+const PLACEMENT_MODES = ["vault-folder", "specified-folder", "same-folder-as-note", "subfolder-under-note", "template"];
+const MULTI_POLICIES = ["unchanged", "lca", "pick-first", "majority", "shallowest-note", "most-recent-note", "shared-pool", "copy-per-note"];
+const NAME_CHECKS = ["off", "on-ignore-explicit", "on-even-explicit"];
+
+/** Keep only known keys with valid values; throws on malformed JSON */
+function parseOverrides(json: string): FolderOverrides {
+  const data = JSON.parse(json) as Record<string, unknown>;
+  if (!data || typeof data !== "object" || Array.isArray(data)) throw new Error("expected a JSON object");
+
+  const out: FolderOverrides = {};
+  const p = data.placement as Record<string, unknown> | undefined;
+  if (p && typeof p === "object") {
+    const placement: Partial<PlacementPolicy> = {};
+    if (typeof p.mode === "string" && PLACEMENT_MODES.includes(p.mode)) placement.mode = p.mode as PlacementPolicy["mode"];
+    if (typeof p.specifiedFolder === "string") placement.specifiedFolder = p.specifiedFolder;
+    if (typeof p.subfolderName === "string") placement.subfolderName = p.subfolderName;
+    if (typeof p.template === "string") placement.template = p.template;
+    out.placement = placement;
+  }
+  if (typeof data.multiBacklinkPolicy === "string" && MULTI_POLICIES.includes(data.multiBacklinkPolicy)) {
+    out.multiBacklinkPolicy = data.multiBacklinkPolicy as MultiBacklinkPolicy;
+  }
+  if (typeof data.globalNameCheck === "string" && NAME_CHECKS.includes(data.globalNameCheck)) {
+    out.globalNameCheck = data.globalNameCheck as GlobalNameCheck;
+  }
+  return out;
+}
+
+/** ===== Folder config files =====
+ * An optional hidden `.attachment-organizer.json` in any folder overrides
+ * placement / multi-backlink policy / global name check for that subtree.
+ * Deeper folders inherit and can override again. Hidden files are not part of
+ * the vault index, so they are read through the adapter. Each folder is checked
+ * once; `invalidate` (on file-system events for config files) marks it for re-reading.
+ */
+export class FolderConfigStore {
+  private adapter: DataAdapter;
+  private configs = new Map<string, ConfigRecord>(); // folder path -> record
+  private checked = new Set<string>(); // folders whose config file (or its absence) is known
+
+  constructor(adapter: DataAdapter) {
+    this.adapter = adapter;
+  }
+
+  /** Read config files of folders not checked yet; returns newly found errors (path: message) */
+  async load(folders: string[]): Promise<string[]> {
+    const errors: string[] = [];
+    const seen = new Set<string>();
+
+    for (const folder of folders) {
+      seen.add(folder);
+      if (this.checked.has(folder)) continue;
+      this.checked.add(folder);
+      const path = configPath(folder);
+
+      let stat: { mtime: number } | null = null;
+      try {
+        stat = await this.adapter.stat(path);
+      } catch {
+        stat = null;
+      }
+      if (!stat) {
+        this.configs.delete(folder);
+        continue;
+      }
+
+      const prev = this.configs.get(folder);
+      if (prev && prev.mtime === stat.mtime) continue;
+
+      try {
+        const overrides = parseOverrides(await this.adapter.read(path));
+        this.configs.set(folder, { mtime: stat.mtime, overrides });
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        this.configs.set(folder, { mtime: stat.mtime, overrides: null, error: message });
+        errors.push(`${path}: ${message}`);
+      }
+    }
+
+    for (const folder of [...this.configs.keys()]) {
+      if (!seen.has(folder)) this.configs.delete(folder);
+    }
+    for (const folder of [...this.checked]) {
+      if (!seen.has(folder)) this.checked.delete(folder);
+    }
+    return errors;
+  }
+
+  /** Forget which folders were checked, so the next load re-reads every config file */
+  reset(): void {
+    this.checked.clear();
+  }
+
+  /** A file changed on disk; true when it is a config file (its folder is re-read on the next load) */
+  invalidate(path: string): boolean {
+    const name = path.split("/").pop();
+    if (name !== FOLDER_CONFIG_FILE) return false;
+    this.checked.delete(path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "");
+    return true;
+  }
+
+  /** Merge configs from the vault root down to `folder` over the global settings */
+  resolve(folder: string, base: FolderSettings): ResolvedFolderSettings {
+    const out: ResolvedFolderSettings = { ...base, placement: { ...base.placement }, sources: [], keys: [] };
+    if (this.configs.size === 0) return out;
+
+    const segments = folder.split("/").filter(Boolean);
+    for (let i = 0; i <= segments.length; i++) {
+      const f = segments.slice(0, i).join("/");
+      const o = this.configs.get(f)?.overrides;
+      if (!o) continue;
+
+      const keys: string[] = [];
+      if (o.placement) {
+        const p = o.placement;
+        (Object.keys(p) as (keyof PlacementPolicy)[]).forEach((k) => {
+          if (p[k] === undefined) return;
+          out.placement = { ...out.placement, [k]: p[k] };
+          keys.push(`placement.${k}`);
+        });
+      }
+      if (o.multiBacklinkPolicy) {
+        out.multiBacklinkPolicy = o.multiBacklinkPolicy;
+        keys.push("multiBacklinkPolicy");
+      }
+      if (o.globalNameCheck) {
+        out.globalNameCheck = o.globalNameCheck;
+        keys.push("globalNameCheck");
+      }
+      if (keys.length === 0) continue;
+
+      out.sources.push(configPath(f));
+      for (const k of keys) if (!out.keys.includes(k)) out.keys.push(k);
+    }
+    return out;
+  }
+}
+
+function configPath(folder: string): string {
+  return folder ? `${folder}/${FOLDER_CONFIG_FILE}` : FOLDER_CONFIG_FILE;
+}
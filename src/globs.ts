@@ -0,0 +1,88 @@
+/** ===== Glob patterns =====
+ * Include/exclude patterns for scanning, matched against vault paths (case-insensitive).
+ * - `*` any characters except "/", `**` any number of folders, `?` one character
+ * - `{png,jpg}` alternatives
+ * - a pattern without "/" matches a file or folder name at any depth
+ * - a pattern matching a folder also covers everything below it
+ */
+export function globToRegExp(glob: string): RegExp {
+  const g = glob.trim().replace(/^\/+|\/+$/g, "");
+  let out = "";
+  let inBraces = false;
+
+  for (let i = 0; i < g.length; i++) {
+    const c = g[i];
+    if (c === "*") {
+      if (g[i + 1] === "*") {
+        // "**/" spans zero or more folders; a trailing "**" anything
+        if (g[i + 2] === "/") {
+          out += "(?:.*/)?";
+          i += 2;
+        } else {
+          out += ".*";
+          i += 1;
+        }
+      } else {
+        out += "[^/]*";
+      }
+    } else if (c === "?") {
+      out += "[^/]";
+    } else if (c === "{" && !inBraces && g.indexOf("}", i) > i) {
+      out += "(?:";
+      inBraces = true;
+    } else if (c === "}" && inBraces) {
+      out += ")";
+      inBraces = false;
+    } else if (c === "," && inBraces) {
+      out += "|";
+    } else {
+      out += c.replace(/[.+^$()|[\]\\{}]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${out}$`, "i");
+}
+
+type CompiledGlob = { pattern: string; re: RegExp; byName: boolean };
+
+function compile(patterns: string[]): CompiledGlob[] {
+  return patterns
+    .map((p) => p.trim())
+    .filter(Boolean)
+    .map((pattern) => ({ pattern, re: globToRegExp(pattern), byName: !pattern.replace(/^\/+|\/+$/g, "").includes("/") }));
+}
+
+/** Decides which files the organizer scans.
+ * Exclude patterns apply to every file (attachments and notes);
+ * include patterns, when set, narrow which attachments are inventoried.
+ */
+export class PathFilter {
+  private include: CompiledGlob[];
+  private exclude: CompiledGlob[];
+
+  constructor(include: string[], exclude: string[]) {
+    this.include = compile(include);
+    this.exclude = compile(exclude);
+  }
+
+  /** Why `path` is left out, or null when it is scanned */
+  reasonFor(path: string, isAttachment: boolean): string | null {
+    const hit = this.exclude.find((g) => matches(g, path));
+    if (hit) return `excluded by "${hit.pattern}"`;
+
+    if (isAttachment && this.include.length > 0 && !this.include.some((g) => matches(g, path))) {
+      return "not matched by any include pattern";
+    }
+    return null;
+  }
+}
+
+/** Name patterns test every path segment; path patterns test the path and each parent folder */
+function matches(g: CompiledGlob, path: string): boolean {
+  const segments = path.split("/").filter(Boolean);
+  if (g.byName) return segments.some((s) => g.re.test(s));
+
+  for (let i = segments.length; i > 0; i--) {
+    if (g.re.test(segments.slice(0, i).join("/"))) return true;
+  }
+  return false;
+}
@@ -0,0 +1,124 @@
+import { App, Modal } from "obsidian";
+import type { UndoEntry, UndoMove } from "./main";
+import { cycleGroupOf } from "./move-order";
+
+type HistoryProvider = {
+  getJournal: () => UndoEntry[];
+  checkMove: (mv: UndoMove, direction: "revert" | "redo") => string | null;
+  revertBatch: (id: string) => Promise<void>;
+  revertMove: (id: string, index: number) => Promise<void>;
+  redoBatch: (id: string) => Promise<void>;
+  clearHistory: () => Promise<void>;
+};
+
+/** ===== History Modal =====
+ * Lists journaled batches (newest first) with their source/target pairs.
+ * Each batch can be reverted or redone as a whole; single moves can be reverted
+ * (moves of a swap only together).
+ * Moves whose file changed since the batch are flagged inline.
+ */
+export class HistoryModal extends Modal {
+  private provider: HistoryProvider;
+
+  constructor(app: App, provider: HistoryProvider) {
+    super(app);
+    this.provider = provider;
+  }
+
+  onOpen() {
+    this.render();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private render(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("katt-history-modal");
+
+    contentEl.createEl("h2", { text: "Organizer history" });
+
+    const journal = [...this.provider.getJournal()].reverse();
+    if (journal.length === 0) {
+      contentEl.createEl("p", { text: "No operations recorded yet.", cls: "setting-item-description" });
+      return;
+    }
+
+    const list = contentEl.createDiv({ cls: "katt-history-list" });
+    for (const entry of journal) this.renderEntry(list, entry);
+
+    const footer = contentEl.createDiv({ cls: "katt-confirm-buttons" });
+    const clearBtn = footer.createEl("button", { text: "Clear history" });
+    clearBtn.addEventListener("click", () => {
+      void this.run(() => this.provider.clearHistory());
+    });
+  }
+
+  private renderEntry(parentEl: HTMLElement, entry: UndoEntry): void {
+    const active = entry.moves.filter((m) => !m.reverted).length;
+    const reverted = entry.moves.length - active;
+
+    const box = parentEl.createDiv({ cls: "katt-history-entry" });
+    const head = box.createDiv({ cls: "katt-history-head" });
+
+    const title = head.createDiv({ cls: "katt-history-title" });
+    title.createSpan({ text: new Date(entry.timestamp).toLocaleString() });
+    const summary = reverted > 0 ? `${entry.moves.length} move(s), ${reverted} reverted` : `${entry.moves.length} move(s)`;
+    title.createSpan({ text: summary, cls: "katt-history-count" });
+
+    const buttons = head.createDiv({ cls: "katt-history-buttons" });
+    if (active > 0) {
+      const revertBtn = buttons.createEl("button", { text: "Revert batch" });
+      revertBtn.addEventListener("click", () => {
+        void this.run(() => this.provider.revertBatch(entry.id));
+      });
+    }
+    if (reverted > 0) {
+      const redoBtn = buttons.createEl("button", { text: "Redo batch" });
+      redoBtn.addEventListener("click", () => {
+        void this.run(() => this.provider.redoBatch(entry.id));
+      });
+    }
+
+    const details = box.createEl("details", { cls: "katt-history-moves" });
+    details.createEl("summary", { text: "Moves" });
+
+    entry.moves.forEach((mv, index) => {
+      const row = details.createDiv({ cls: "katt-history-move" });
+      row.toggleClass("is-reverted", !!mv.reverted);
+
+      const text = row.createDiv({ cls: "katt-history-move-text" });
+      text.createDiv({ text: `${mv.from} ${mv.copy ? "⇒" : "→"} ${mv.to}` });
+
+      const flag = this.provider.checkMove(mv, mv.reverted ? "redo" : "revert");
+      if (mv.temp) {
+        text.createDiv({ text: "Temporary hop (swap)", cls: "katt-history-flag is-muted" });
+      }
+      if (mv.copy) {
+        text.createDiv({ text: "Copy (revert moves it to trash)", cls: "katt-history-flag is-muted" });
+      }
+      if (mv.reverted) {
+        text.createDiv({ text: "Reverted", cls: "katt-history-flag is-muted" });
+      }
+      if (flag) {
+        text.createDiv({ text: `⚠ ${flag}`, cls: "katt-history-flag" });
+      }
+
+      if (!mv.reverted) {
+        const swap = cycleGroupOf(entry.moves, index).length > 1;
+        const btn = row.createEl("button", { text: swap ? "Revert swap" : "Revert" });
+        btn.addEventListener("click", () => {
+          void this.run(() => this.provider.revertMove(entry.id, index));
+        });
+      }
+    });
+  }
+
+  /** Run an action, then re-render so flags/states are current */
+  private async run(action: () => Promise<void>): Promise<void> {
+    await action();
+    this.render();
+  }
+}
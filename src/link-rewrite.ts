@@ -0,0 +1,162 @@
+import { normalizePath } from "obsidian";
+
+/** One link rewrite inside a note: `before` markup is replaced by `after`.
+ * Stored in the undo journal so undo/redo can restore the note text too.
+ */
+export type LinkEdit = {
+  note: string; // note path
+  before: string; // original link markup, e.g. ![[folder/img.png|300]]
+  after: string; // rewritten link markup
+  bare?: boolean; // `before` is a plain path (HTML src, frontmatter value): only replaced where it stands alone
+  count?: number; // occurrences the last forward apply replaced; undo reverts no more than these
+};
+
+/** Text after a replace, with how many occurrences were replaced */
+export type Replaced = { text: string; count: number };
+
+type LinkParts = {
+  head: string; // "![[" / "[[" / "![alt](" / "[text]("
+  path: string; // file part as written (may be encoded / relative)
+  tail: string; // everything after the file part (#sub, |alias, title, closing)
+  markdown: boolean;
+  angle: boolean; // markdown dest wrapped in <...>
+};
+
+/** Split link markup into head / file path / tail; null if not a wiki or markdown link */
+function splitLink(original: string): LinkParts | null {
+  if (original.endsWith("]]")) {
+    const open = original.indexOf("[[");
+    if (open === -1) return null;
+    const head = original.slice(0, open + 2);
+    const inner = original.slice(open + 2);
+    const m = /^[^|#^\]]*/.exec(inner);
+    const path = m ? m[0] : "";
+    return { head, path, tail: inner.slice(path.length), markdown: false, angle: false };
+  }
+
+  if (original.endsWith(")")) {
+    const open = original.indexOf("](");
+    if (open === -1) return null;
+    const head = original.slice(0, open + 2);
+    const body = original.slice(open + 2);
+
+    if (body.startsWith("<")) {
+      const close = body.indexOf(">");
+      if (close === -1) return null;
+      const dest = body.slice(1, close);
+      const cut = dest.search(/[#?]/);
+      const path = cut === -1 ? dest : dest.slice(0, cut);
+      return { head: head + "<", path, tail: body.slice(1 + path.length), markdown: true, angle: true };
+    }
+
+    const m = /^[^\s#?)]*/.exec(body);
+    const path = m ? m[0] : "";
+    return { head, path, tail: body.slice(path.length), markdown: true, angle: false };
+  }
+
+  return null;
+}
+
+function dirname(path: string): string {
+  const i = path.lastIndexOf("/");
+  return i === -1 ? "" : path.slice(0, i);
+}
+
+/** Relative path from a folder to a vault path, using ../ segments */
+export function relativePath(fromFolder: string, to: string): string {
+  const a = normalizePath(fromFolder || "").split("/").filter(Boolean);
+  const b = normalizePath(to).split("/").filter(Boolean);
+  let i = 0;
+  while (i < a.length && i < b.length - 1 && a[i] === b[i]) i++;
+  const ups: string[] = [];
+  for (let k = i; k < a.length; k++) ups.push("..");
+  return [...ups, ...b.slice(i)].join("/");
+}
+
+/** Format `target` in the same style as `oldPath` (relative / leading slash / vault path / name only) */
+function formatPathLike(oldPath: string, target: string, notePath: string, parts: LinkParts, forcePath: boolean): string {
+  let decoded = oldPath;
+  if (oldPath.includes("%")) {
+    try {
+      decoded = decodeURIComponent(oldPath);
+    } catch {
+      // keep as written
+    }
+  }
+  decoded = decoded.replace(/\\/g, "/");
+
+  let out: string;
+  if (decoded.startsWith("./") || decoded.startsWith("../")) {
+    out = relativePath(dirname(notePath), target);
+    if (decoded.startsWith("./") && !out.startsWith("../")) out = `./${out}`;
+  } else if (decoded.startsWith("/")) {
+    out = `/${target}`;
+  } else if (!decoded.includes("/") && !forcePath) {
+    out = target.split("/").pop() ?? target;
+  } else {
+    out = target;
+  }
+
+  // links to .md attachments (drawing.excalidraw) usually omit the extension
+  if (!decoded.toLowerCase().endsWith(".md") && out.toLowerCase().endsWith(".md")) {
+    out = out.slice(0, -3);
+  }
+
+  // markdown destinations without <...> must not contain raw spaces
+  if (parts.markdown && !parts.angle && (oldPath.includes("%") || /\s/.test(out))) {
+    out = encodeURI(out);
+  }
+  return out;
+}
+
+/** Rewrite link markup so its file part points at `target`, keeping the link's style.
+ * forcePath: name-only links get the full vault path (when the name alone is ambiguous).
+ * Returns null when the markup can't be parsed.
+ */
+export function rewriteLink(original: string, target: string, notePath: string, forcePath = false): string | null {
+  const parts = splitLink(original);
+  if (!parts || !parts.path) return null;
+  const path = formatPathLike(parts.path, normalizePath(target), notePath, parts, forcePath);
+  return parts.head + path + parts.tail;
+}
+
+/** Rewrite a plain path (HTML src, frontmatter path value, code block token) to
+ * point at `target`, keeping its style; percent-encoded paths stay encoded.
+ */
+export function rewritePath(oldPath: string, target: string, notePath: string, forcePath = false): string {
+  const parts: LinkParts = { head: "", path: oldPath, tail: "", markdown: oldPath.includes("%"), angle: false };
+  return formatPathLike(oldPath, normalizePath(target), notePath, parts, forcePath);
+}
+
+/** Replace occurrences of `before` with `after`, the first `limit` only when given */
+export function replaceAllText(text: string, before: string, after: string, limit = Infinity): Replaced {
+  if (!before || limit <= 0) return { text, count: 0 };
+  const parts = text.split(before);
+  if (parts.length - 1 <= limit) return { text: parts.join(after), count: parts.length - 1 };
+  return { text: parts.slice(0, limit + 1).join(after) + before + parts.slice(limit + 1).join(before), count: limit };
+}
+
+// characters that continue a path; a bare path must not touch one on either side
+const PATH_CHAR = /[^\s"'`()<>[\]{}|,;=]/;
+
+/** Replace occurrences of the plain path `before` that stand alone
+ * (x.png inside box.png or other/x.png is left as is), the first `limit` only when given
+ */
+export function replaceBarePath(text: string, before: string, after: string, limit = Infinity): Replaced {
+  if (!before) return { text, count: 0 };
+  let out = "";
+  let from = 0;
+  let count = 0;
+  let i = text.indexOf(before);
+  while (i !== -1 && count < limit) {
+    const prev = i > 0 ? text[i - 1] : "";
+    const next = text[i + before.length] ?? "";
+    if ((!prev || !PATH_CHAR.test(prev)) && (!next || !PATH_CHAR.test(next))) {
+      out += text.slice(from, i) + after;
+      from = i + before.length;
+      count++;
+    }
+    i = text.indexOf(before, i + before.length);
+  }
+  return { text: out + text.slice(from), count };
+}
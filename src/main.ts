@@ -7,30 +7,91 @@ import {
   Setting,
   TFile,
   TFolder,
+  getAllTags,
   normalizePath,
 } from "obsidian";
+import type { EventRef } from "obsidian";
 import { AttachView, ATTACH_VIEW_TYPE } from "./attach-view";
+import { HistoryModal } from "./history-modal";
+import { RecoveryModal } from "./recovery-modal";
+import { rewriteLink, rewritePath, replaceAllText, replaceBarePath } from "./link-rewrite";
+import type { LinkEdit } from "./link-rewrite";
+import { cycleGroupOf, orderMoves } from "./move-order";
+import { HashCache } from "./content-hash";
+import type { HashRecord } from "./content-hash";
+import { CanvasRefCache } from "./canvas";
+import { ExtractorRegistry, codeBlockExtractor, htmlExtractor } from "./extractors";
+import type { ExtractedRef, ReferenceExtractor } from "./extractors";
+import { PLACEMENT_TEMPLATE_VARS, folderPathError, renderPlacementTemplate, validatePlacementTemplate } from "./placement-template";
+import { NAME_TEMPLATE_VARS, renderNameTemplate, validateNameTemplate } from "./name-template";
+import { matchPlacementRule } from "./placement-rules";
+import { FolderConfigStore, FOLDER_CONFIG_FILE } from "./folder-config";
+import type { ResolvedFolderSettings } from "./folder-config";
+import { PathFilter } from "./globs";
+import { matchAttachmentRule, migrateRegexOnlyRules, parseAttachmentRules } from "./attachment-rules";
+import type { AttachmentRule } from "./attachment-rules";
+import { ProfileSuggestModal, findProfileOverlaps } from "./profiles";
+import type { ProfileOverlap } from "./profiles";
+import { StagingLog } from "./staging";
+import type { StagedRecord } from "./staging";
+import { RetentionModal } from "./retention-modal";
+import type { RetentionCandidate } from "./retention-modal";
+import type { RecoveryChoice } from "./recovery-modal";
 
 /** ===== Undo History =====
  * Reason: Users need ability to undo accidental batch moves.
- * Stores last N operations for potential rollback.
+ * Persisted to plugin data so batches survive reloads; each move can be
+ * reverted (or redone) on its own from the history modal.
  */
-type UndoEntry = {
+export type UndoMove = {
+  from: string;
+  to: string;
+  // stat of the moved file right after the move (detects later edits)
+  mtime?: number;
+  size?: number;
+  reverted?: boolean;
+  // note text rewrites done together with this move ("rewrite-links" mode)
+  linkEdits?: LinkEdit[];
+  temp?: boolean; // hop through a temporary path (part of a swap/cycle)
+  copy?: boolean; // `to` is a new copy of `from` (undo removes it)
+  reason?: string; // why the plan moved the file (kept in the staging manifest)
+};
+
+export type UndoEntry = {
+  id: string;
   timestamp: number;
-  moves: { from: string; to: string }[];
+  moves: UndoMove[];
 };
 
-const MAX_UNDO_HISTORY = 10;
+const MAX_UNDO_HISTORY = 50;
+
+/** Write-ahead journal: a batch is stored before any file moves and updated
+ * after each move, so an interrupted apply can be resumed or rolled back.
+ */
+type JournalMove = UndoMove & { status: "pending" | "done" | "failed" };
+
+type PendingBatch = {
+  id: string;
+  timestamp: number;
+  moves: JournalMove[];
+};
 
 /** ===== Model (final) ===== */
 export type FileKind = "note-md" | "attachment-file" | "attachment-md" | "unknown";
 export type Zone = "A" | "B" | "C" | "OUT";
 
+export type BacklinkSource = "link" | "embed" | "frontmatter" | "canvas" | "extractor";
+
 export type Backlink = {
-  from: string; // note path
+  from: string; // note path (or canvas path)
   raw: string; // raw link string
   cleaned: string; // cleaned file-part (no alias/#/^/?)
   explicitPath?: string; // normalized vault path if link contains "/" (incl. ../ ./ / folder/)
+  source: BacklinkSource; // where the reference was found
+  extractor?: string; // extractor id (source "extractor")
+  alt?: string; // alt text / display text of the link, if any
+  offset?: number; // position in the note (orders a note's attachments)
+  excludedSource?: boolean; // from a file the exclude patterns leave out: protects, never owns
 };
 
 export type Action =
@@ -51,41 +112,141 @@ export type FileEntry = {
   action: Action;
 
   // tags are minimal
-  tags: string[]; // "missing" | "orphan" | "conflict-target-occupied" | "conflict-ambiguous-name"
+  tags: string[]; // "missing" | "orphan" | "pinned" | "excluded" | "outside-scope" | "conflict-target-occupied" | "conflict-ambiguous-name" | "conflict-invalid-target"
+
+  // attachment rule that made this .md file an attachment (e.g. "fm:excalidraw-plugin")
+  classifiedBy?: string;
+
+  // files the scan does not count (outside the scope, drawings, switched-off link types) that reference this file
+  outsideRefs?: string[];
+
+  // a rename (naming template / conflict strategy) was skipped: files in outsideRefs would lose their links
+  nameKept?: boolean;
+
+  // why the include/exclude patterns left this file out (report.excluded only)
+  excludedBy?: string;
 
   // Conflict details - shows what file(s) caused the conflict
   // Reason: Users need to know WHY there's a conflict to resolve it
   conflictWith?: string[];
 
+  // Set when a conflict was resolved by renaming the target (conflict strategy)
+  renamed?: { target: string; reason: string };
+
+  // byte-identical copy of this canonical file (tag "duplicate")
+  duplicateOf?: string;
+
+  // attachment-md sources (drawings) whose planned location placed this file
+  follows?: string[];
+
+  // placement template produced an illegal path (tag "conflict-invalid-target")
+  invalidTarget?: string;
+
+  // new file name from the naming template (applied to every planned target)
+  plannedName?: string;
+
+  // per-note frontmatter override that decided the placement (value "keep" pins)
+  noteOverride?: { note: string; value: string };
+
+  // folder config files whose overrides applied to this entry
+  folderConfig?: { sources: string[]; keys: string[] };
+
+  // "copy-per-note": copies to create and the notes relinked to each
+  copies?: { target: string; notes: string[] }[];
+
   // preview helper (only present on preview entries)
   virtualFrom?: string; // source path
   isPreview?: boolean; // true if preview entry
+  order?: number; // 1-based position in the move order
+  via?: string; // temporary path used to break a move cycle
+  copyOf?: string; // the preview entry is a new copy of this file
+};
+
+/** Result of checking one candidate target during preview simulation */
+type TargetProbe =
+  | { kind: "ok"; waits?: string } // free (maybe after the occupant moves away)
+  | { kind: "planned"; tag: string; with: string } // clashes with another planned move
+  | { kind: "existing"; with: string } // an existing file holds the target
+  | { kind: "ambiguous"; others: string[] }; // same name exists elsewhere
+
+/** One rename in the ordered plan; cycles add hops through a temp path */
+export type MoveStep = {
+  from: string;
+  to: string;
+  source: string; // original path of the moved entry
+  temp?: boolean; // hop into/out of a temporary path
+  copy?: boolean; // copy `from` to `to`; the source stays
+};
+
+/** Byte-identical attachments: one canonical copy is kept on merge */
+export type DuplicateGroup = {
+  hash: string;
+  canonical: string;
+  copies: string[];
 };
 
 export type DetectReport = {
   entries: FileEntry[]; // real + missing (and OUT referenced)
-  preview: FileEntry[]; // planned targets (virtual)
+  preview: FileEntry[]; // planned targets (virtual), in execution order
+  steps: MoveStep[]; // ordered moves incl. temporary hops (what applyPlan runs)
+  duplicates: DuplicateGroup[];
+  excluded: FileEntry[]; // left out by include/exclude patterns (never planned)
   stats: {
     notes: number;
     attachments: number;
-    todo: number; // B/R/M/C
+    todo: number; // B/R/M/C/D
     missing: number;
     conflicts: number;
+    duplicates: number;
+    outsideScope: number; // kept because only out-of-scope notes reference them
+    pinned: number; // on the pin list (never planned)
+    excluded: number;
     total: number;
   };
 };
 
 /** ===== Settings (final) ===== */
 type BacklinkScope = "zoneA-only" | "whole-vault";
-type GlobalNameCheck = "off" | "on-ignore-explicit" | "on-even-explicit";
-type MultiBacklinkPolicy = "unchanged" | "lca" | "pick-first";
-type LinkSources = { links: boolean; embeds: boolean; frontmatter: boolean };
+export type GlobalNameCheck = "off" | "on-ignore-explicit" | "on-even-explicit";
+export type MultiBacklinkPolicy =
+  | "unchanged"
+  | "lca"
+  | "pick-first"
+  | "majority"
+  | "shallowest-note"
+  | "most-recent-note"
+  | "shared-pool"
+  | "copy-per-note";
+type LinkSources = { links: boolean; embeds: boolean; frontmatter: boolean; canvas: boolean; attachmentMd: boolean };
+type MoveMode = "rename" | "rewrite-links";
+type ConflictStrategy = "skip" | "numeric-suffix" | "note-prefix" | "content-hash";
 
 type PlacementMode =
   | "vault-folder"
   | "specified-folder"
   | "same-folder-as-note"
-  | "subfolder-under-note";
+  | "subfolder-under-note"
+  | "template";
+
+export type PlacementPolicy = {
+  mode: PlacementMode;
+  specifiedFolder: string;
+  subfolderName: string;
+  template: string; // folder template for mode "template"
+};
+
+/** Ordered placement rule: conditions (empty = any) -> placement policy */
+export type PlacementRule = {
+  name: string;
+  enabled: boolean;
+  extensions: string[]; // file extension, e.g. "pdf"
+  noteFolder: string; // referencing note is in this folder (or below)
+  noteTags: string[]; // referencing note has one of these tags
+  minSizeKB: number | null;
+  maxSizeKB: number | null;
+  zones: Zone[]; // current zone of the file
+  placement: PlacementPolicy;
+};
 
 type Settings = {
   zoneA: string; // empty => vault root
@@ -96,25 +257,94 @@ type Settings = {
 
   backlinkScope: BacklinkScope;
   linkSources: LinkSources;
-
-  placement: {
-    mode: PlacementMode;
-    specifiedFolder: string;
-    subfolderName: string;
+  extractors: Record<string, boolean>; // extractor id -> on/off (missing: extractor default)
+  frontmatterPathKeys: string[]; // property keys whose plain string values are file paths
+  ownership: Record<BacklinkSource, boolean>; // false: the reference type only protects from orphan
+
+  placement: PlacementPolicy;
+  placementRules: PlacementRule[]; // first match wins; `placement` is the fallback
+  noteOverrideKey: string; // frontmatter key: folder / template / "keep" for the note's attachments
+  pinned: string[]; // file/folder paths the organizer never plans (folders cover their subtree)
+  includeGlobs: string[]; // when set, only matching attachments are inventoried
+  excludeGlobs: string[]; // files/folders left out of inventory and reference scanning
+  folderConfigs: boolean; // read per-folder .attachment-organizer.json overrides
+
+  // "rewrite-links": update explicit-path links in referencing notes on move
+  moveMode: MoveMode;
+
+  // rename attachments whose name matches `match` (regex; empty = all)
+  naming: {
+    enabled: boolean;
+    template: string;
+    match: string;
   };
 
   multiBacklinkPolicy: MultiBacklinkPolicy;
+  sharedPoolFolder: string; // target of multi-backlink policy "shared-pool"
   globalNameCheck: GlobalNameCheck;
+  conflictStrategy: ConflictStrategy; // how to resolve target/name conflicts
 
-  // attachment rules: one regex per line
+  // attachment rules: one per line (path regex, fm:key[=value] or tag:name)
   attachmentRulesText: string; // e.g. "\\.excalidraw\\.md$"
+  attachmentRulesVersion: number; // 1 = every line a regex (before fm:/tag: rules), 2 = current
   planOutAttachments: boolean; // OUT items: include in planning (default false)
+  detectDuplicates: boolean; // hash attachment contents to find identical copies
+
+  // staging retention: unreferenced files the organizer staged N days ago go to trash
+  retention: {
+    enabled: boolean;
+    days: number;
+    auto: boolean; // on startup; trash without review up to `autoMax` files
+    autoMax: number;
+  };
 
   // UI settings
   showStats: boolean; // show stats in organizer view
+
+  // workspace profiles: every profile's own settings; the active one mirrors the fields above
+  profiles: Profile[];
+  activeProfile: string;
+};
+
+/** Settings each workspace profile keeps for itself; the rest are shared */
+const PROFILE_KEYS = [
+  "zoneA",
+  "zoneB",
+  "extraScanFolders",
+  "extraScanEnabled",
+  "recursive",
+  "backlinkScope",
+  "placement",
+  "placementRules",
+  "multiBacklinkPolicy",
+  "sharedPoolFolder",
+  "globalNameCheck",
+  "conflictStrategy",
+  "moveMode",
+  "naming",
+  "planOutAttachments",
+] as const;
+
+export type ProfileSettings = Pick<Settings, (typeof PROFILE_KEYS)[number]>;
+export type Profile = ProfileSettings & { name: string };
+
+/** Vault event for every file-system change, hidden files included (missing from the public typings) */
+type RawVaultEvents = { on(name: "raw", callback: (path: string) => unknown): EventRef };
+
+/** What is stored in data.json: settings plus persisted plugin state
+ * (the hash cache has its own file, see HASH_CACHE_FILE)
+ */
+type PluginData = Settings & {
+  undoJournal: UndoEntry[];
+  pendingBatches: PendingBatch[];
+  stagingLog: Record<string, StagedRecord>;
 };
 
-const DEFAULT_ATTACHMENT_RULES = ["\\.excalidraw\\.md$", "\\.canvas\\.md$"].join("\n");
+// content hashes, next to data.json in the plugin folder
+// Reason: the journal rewrites data.json after every move; a large cache would be rewritten each time
+const HASH_CACHE_FILE = "hash-cache.json";
+
+const DEFAULT_ATTACHMENT_RULES = ["\\.excalidraw\\.md$", "\\.canvas\\.md$", "fm:excalidraw-plugin"].join("\n");
 
 const DEFAULT_SETTINGS: Settings = {
   zoneA: "SETs",
@@ -125,21 +355,74 @@ const DEFAULT_SETTINGS: Settings = {
   recursive: true,
 
   backlinkScope: "zoneA-only",
-  linkSources: { links: true, embeds: true, frontmatter: true },
+  linkSources: { links: true, embeds: true, frontmatter: true, canvas: true, attachmentMd: false },
+  extractors: {},
+  frontmatterPathKeys: [],
+  ownership: { link: true, embed: true, frontmatter: true, canvas: true, extractor: true },
 
   placement: {
     mode: "subfolder-under-note",
     specifiedFolder: "",
     subfolderName: "attachments",
+    template: "${noteFolder}/${noteName}.assets",
+  },
+  placementRules: [],
+  noteOverrideKey: "attachment-folder",
+  pinned: [],
+  includeGlobs: [],
+  excludeGlobs: [],
+  folderConfigs: false,
+
+  moveMode: "rename",
+  naming: {
+    enabled: false,
+    template: "${noteName}-${index}",
+    match: "^Pasted image ",
   },
 
   multiBacklinkPolicy: "unchanged",
+  sharedPoolFolder: "Shared",
   globalNameCheck: "on-ignore-explicit",
+  conflictStrategy: "skip",
 
   attachmentRulesText: DEFAULT_ATTACHMENT_RULES,
+  attachmentRulesVersion: 2,
   planOutAttachments: false,
+  detectDuplicates: false,
+
+  retention: { enabled: false, days: 30, auto: false, autoMax: 10 },
 
   showStats: false,
+
+  profiles: [],
+  activeProfile: "Default",
+};
+
+/** Deep copy of the profile-specific settings */
+function profileSettingsOf(s: ProfileSettings): ProfileSettings {
+  const out: Record<string, unknown> = {};
+  for (const k of PROFILE_KEYS) out[k] = JSON.parse(JSON.stringify(s[k])) as unknown;
+  return out as ProfileSettings;
+}
+
+function newPlacementRule(): PlacementRule {
+  return {
+    name: "",
+    enabled: true,
+    extensions: [],
+    noteFolder: "",
+    noteTags: [],
+    minSizeKB: null,
+    maxSizeKB: null,
+    zones: [],
+    placement: { ...DEFAULT_SETTINGS.placement },
+  };
+}
+
+export type OrganizerApi = {
+  /** Add a reference extractor; returns a function that removes it again */
+  registerExtractor: (extractor: ReferenceExtractor) => () => void;
+  listExtractors: () => ReferenceExtractor[];
 };
 
 export default class KPlugin extends Plugin {
@@ -150,44 +433,109 @@ export default class KPlugin extends Plugin {
 
   private refreshTimer: ReturnType<typeof globalThis.setTimeout> | null = null;
 
-  // compiled attachment regex rules
-  private attachmentRules: RegExp[] = [];
+  // compiled attachment rules (path regex / frontmatter / tag)
+  private attachmentRules: AttachmentRule[] = [];
+
+  // compiled include/exclude patterns
+  private pathFilter = new PathFilter([], []);
+
+  // another profile's settings swapped in for a scan/apply; `held` are the active profile's
+  private tempProfile: { name: string; held: ProfileSettings } | null = null;
+  // settled when that run ends (views and commands wait for it)
+  private profileRun: Promise<void> | null = null;
+
+  private settingTab: KPluginSettingTab | null = null;
+
+  // when the organizer moved files into Staging (retention age)
+  private stagingLog = new StagingLog();
+
+  // content hashes (conflict strategy "content-hash", duplicate detection)
+  private hashCache = new HashCache(this.app.vault);
+
+  // file-node refs of .canvas files
+  private canvasRefs = new CanvasRefCache(this.app.vault);
+
+  // per-folder overrides (.attachment-organizer.json)
+  private folderConfigs = new FolderConfigStore(this.app.vault.adapter);
+
+  // reference extractors (built-in + registered by other plugins)
+  private extractorRegistry = new ExtractorRegistry(this.app.vault);
+
+  /** Public API for other plugins:
+   * app.plugins.getPlugin("attachment-organizer")?.api.registerExtractor({...})
+   */
+  api: OrganizerApi = {
+    registerExtractor: (extractor) => {
+      const off = this.extractorRegistry.register(extractor);
+      this.markDirtyAndScheduleRefresh(true);
+      return () => {
+        off();
+        this.markDirtyAndScheduleRefresh(true);
+      };
+    },
+    listExtractors: () => this.extractorRegistry.list(),
+  };
 
   // Undo history - stores recent move operations for rollback
   // Reason: Users may accidentally apply plan; this allows recovery
   private undoHistory: UndoEntry[] = [];
 
-  /** Get the last undo entry (for UI display) */
+  // Write-ahead journal of batches that have not finished yet
+  private pendingBatches: PendingBatch[] = [];
+
+  /** Get the last undo entry that still has moves to revert (for UI display) */
   getLastUndo(): UndoEntry | null {
-    return this.undoHistory.length > 0 ? this.undoHistory[this.undoHistory.length - 1] : null;
+    for (let i = this.undoHistory.length - 1; i >= 0; i--) {
+      const entry = this.undoHistory[i];
+      if (entry.moves.some((m) => !m.reverted)) return entry;
+    }
+    return null;
   }
 
   /** Check if undo is available */
   canUndo(): boolean {
-    return this.undoHistory.length > 0;
+    return this.getLastUndo() !== null;
   }
 
   async onload() {
     await this.loadSettings();
     this.compileAttachmentRules();
 
-    this.addSettingTab(new KPluginSettingTab(this.app, this));
+    this.extractorRegistry.register(htmlExtractor);
+    this.extractorRegistry.register(codeBlockExtractor);
+
+    this.settingTab = new KPluginSettingTab(this.app, this);
+    this.addSettingTab(this.settingTab);
 
     this.registerView(ATTACH_VIEW_TYPE, (leaf) => {
       return new AttachView(leaf, {
-        detectReport: (force?: boolean) => this.detectReport(!!force),
+        // a view must never scan while another profile's settings are swapped in
+        detectReport: async (force?: boolean) => {
+          await this.untilProfileRunEnds();
+          return this.detectReport(!!force);
+        },
         openFileByPath: async (path: string) => {
           const af = this.app.vault.getAbstractFileByPath(normalizePath(path));
           if (af instanceof TFile) await this.app.workspace.getLeaf(true).openFile(af);
         },
-        applyPlan: async () => this.applyPlan(),
+        applyPlan: async () => this.afterProfileRun(() => this.applyPlan()),
         // Expose undo functionality to the view
         // Reason: Users need undo button in UI, not just command palette
         undoLastOperation: async () => this.undoLastOperation(),
         canUndo: () => this.canUndo(),
+        openHistory: () => this.openHistory(),
+        mergeDuplicates: async () => this.afterProfileRun(() => this.mergeDuplicates()),
+        reviewStaging: async () => this.afterProfileRun(() => this.reviewStagingRetention()),
+        stagedInfo: (path) => this.stagedInfo(path),
+        restoreToOrigin: async (path, pin) => this.afterProfileRun(() => this.restoreToOrigin(path, pin)),
         // Settings access for UI options
         getShowStats: () => this.settings.showStats,
         getStagingFolder: () => this.settings.zoneB,
+        ownersOf: (e) => this.ownersOf(e),
+        pinOf: (path) => this.pinOf(path),
+        togglePin: async (path) => this.togglePin(path),
+        getProfiles: () => ({ names: this.profileNames(), active: this.settings.activeProfile }),
+        switchProfile: async (name) => this.switchProfile(name),
       });
     });
 
@@ -200,13 +548,16 @@ export default class KPlugin extends Plugin {
     this.addCommand({
       id: "organizer-rescan",
       name: "Rescan attachments",
-      callback: () => { this.refreshOpenViews(true); },
+      callback: () => {
+        this.folderConfigs.reset();
+        this.refreshOpenViews(true);
+      },
     });
 
     this.addCommand({
       id: "organizer-apply-plan",
       name: "Apply organizer plan",
-      callback: () => { void this.applyPlan(); },
+      callback: () => { void this.afterProfileRun(() => this.applyPlan()); },
     });
 
     // Undo command - allows users to revert last batch operation
@@ -217,11 +568,91 @@ export default class KPlugin extends Plugin {
       callback: () => { void this.undoLastOperation(); },
     });
 
+    this.addCommand({
+      id: "organizer-recover",
+      name: "Resume or roll back unfinished organizer batches",
+      callback: () => {
+        if (this.pendingBatches.length === 0) new Notice("No unfinished batches.");
+        else void this.recoverPendingBatches();
+      },
+    });
+
+    this.addCommand({
+      id: "organizer-merge-duplicates",
+      name: "Merge duplicate attachments",
+      callback: () => { void this.afterProfileRun(() => this.mergeDuplicates()); },
+    });
+
+    this.addCommand({
+      id: "organizer-history",
+      name: "Show organizer history",
+      callback: () => { this.openHistory(); },
+    });
+
+    this.addCommand({
+      id: "organizer-review-staging",
+      name: "Review staging retention",
+      callback: () => { void this.afterProfileRun(() => this.reviewStagingRetention()); },
+    });
+
+    this.addCommand({
+      id: "organizer-switch-profile",
+      name: "Switch workspace profile",
+      callback: () => { this.pickProfile((name) => void this.switchProfile(name)); },
+    });
+
+    this.addCommand({
+      id: "organizer-scan-profile",
+      name: "Scan a workspace profile",
+      callback: () => { this.pickProfile((name) => void this.scanProfiles([name])); },
+    });
+
+    this.addCommand({
+      id: "organizer-scan-all-profiles",
+      name: "Scan all workspace profiles",
+      callback: () => { void this.scanProfiles(this.profileNames()); },
+    });
+
+    this.addCommand({
+      id: "organizer-apply-profile",
+      name: "Apply organizer plan for a workspace profile",
+      callback: () => { this.pickProfile((name) => void this.applyProfiles([name])); },
+    });
+
+    this.addCommand({
+      id: "organizer-apply-all-profiles",
+      name: "Apply organizer plan for all workspace profiles",
+      callback: () => { void this.applyProfiles(this.profileNames()); },
+    });
+
     // auto-dirty on vault changes (debounced)
     this.registerEvent(this.app.vault.on("create", () => this.markDirtyAndScheduleRefresh()));
-    this.registerEvent(this.app.vault.on("delete", () => this.markDirtyAndScheduleRefresh()));
-    this.registerEvent(this.app.vault.on("rename", () => this.markDirtyAndScheduleRefresh()));
+    this.registerEvent(this.app.vault.on("delete", (af) => {
+      if (this.stagingLog.forget(af.path)) void this.persistData();
+      this.markDirtyAndScheduleRefresh();
+    }));
+    this.registerEvent(this.app.vault.on("rename", (af, oldPath) => {
+      // staged files keep their age while they stay in a staging folder
+      if (this.stagingLog.rename(oldPath, af.path, this.inStagingFolder(af.path))) void this.persistData();
+      this.markDirtyAndScheduleRefresh();
+    }));
     this.registerEvent(this.app.vault.on("modify", () => this.markDirtyAndScheduleRefresh()));
+    // folder config files are hidden (outside the vault index); only "raw" reports their changes
+    this.registerEvent((this.app.vault as unknown as RawVaultEvents).on("raw", (path) => {
+      if (this.folderConfigs.invalidate(normalizePath(path))) this.markDirtyAndScheduleRefresh();
+    }));
+    // frontmatter/tag attachment rules read the metadata cache, which updates after "modify"
+    this.registerEvent(this.app.metadataCache.on("changed", () => this.markDirtyAndScheduleRefresh()));
+
+    // Unfinished batches from a previous session (crash, sync, closed window),
+    // then automatic staging retention once every note's links are indexed:
+    // before that, referenced staged files would look unreferenced
+    const indexed = this.metadataResolved();
+    this.app.workspace.onLayoutReady(() => {
+      void this.recoverPendingBatches()
+        .then(() => indexed)
+        .then(() => this.autoStagingRetention());
+    });
   }
 
   onunload() {
@@ -229,7 +660,14 @@ export default class KPlugin extends Plugin {
   }
 
   async saveSettings(): Promise<void> {
-    await this.saveData(this.settings);
+    // the settings in effect belong to another profile until its run ends;
+    // the tab is redrawn with the real values afterwards
+    if (this.tempProfile) {
+      new Notice(`Settings are locked while the plan of profile ${this.tempProfile.name} runs. Change not saved.`);
+      return;
+    }
+    this.syncActiveProfile();
+    await this.persistData();
     this.compileAttachmentRules();
     this.markDirtyAndScheduleRefresh(true);
   }
@@ -265,13 +703,13 @@ export default class KPlugin extends Plugin {
     for (const leaf of leaves) {
       const view = leaf.view;
       if (view instanceof AttachView) {
-        view.rescan(force);
+        void view.rescan(force);
       }
     }
   }
 
   /** ===== DetectReport (inventory + backlinks + plan + preview/conflict) ===== */
-  detectReport(force: boolean): DetectReport {
+  async detectReport(force: boolean): Promise<DetectReport> {
     if (!force && !this.dirty && this.lastReport) return this.lastReport;
 
     this.dirty = false;
@@ -292,6 +730,7 @@ export default class KPlugin extends Plugin {
           tags: [],
           ...init,
         };
+        if (e.kind === "attachment-md") e.classifiedBy = this.attachmentRuleFor(p)?.text;
         map.set(p, e);
       } else if (init) {
         Object.assign(e, init);
@@ -299,32 +738,80 @@ export default class KPlugin extends Plugin {
       return e;
     };
 
-    /** Step 1: inventory scan A/B/C */
-    const inventoryFiles = this.scanInventoryFiles();
-    for (const f of inventoryFiles) ensure(f.path);
+    /** Step 1: inventory scan A/B/C (minus include/exclude patterns) */
+    const excluded: FileEntry[] = [];
+    for (const f of this.scanInventoryFiles()) {
+      const kind = this.kindOf(f.path);
+      const reason = this.excludedReason(f.path, this.isAttachmentKind(kind));
+      if (!reason) {
+        ensure(f.path);
+        continue;
+      }
+      excluded.push({
+        path: f.path,
+        displayName: f.name,
+        zone: this.zoneOf(f.path),
+        kind,
+        referencedByNotes: [],
+        action: { type: "keep" },
+        tags: ["excluded"],
+        excludedBy: reason,
+      });
+    }
 
     /** Step 2: parse backlinks (from notes) */
     const notes = this.listNotesByScope();
     const missingKeys = new Map<string, Backlink[]>();
 
+    const addBacklink = (bl: Backlink, dest: TFile | null, missingKey: string) => {
+      // excluded files are never planned, even when referenced
+      if (dest && this.excludedReason(dest.path, this.isAttachmentKind(this.kindOf(dest.path)))) return;
+      if (dest) {
+        const to = ensure(dest.path);
+        to.zone = this.zoneOf(to.path);
+        to.kind = this.kindOf(to.path);
+
+        // push backlink (dedupe by from only; an owning reference wins over a weak one)
+        const i = to.referencedByNotes.findIndex((x) => x.from === bl.from);
+        if (i < 0) {
+          to.referencedByNotes.push(bl);
+        } else if (!this.confersOwnership(to.referencedByNotes[i]) && this.confersOwnership(bl)) {
+          to.referencedByNotes[i] = bl;
+        }
+      } else if (!bl.excludedSource) {
+        // broken links inside excluded files are not reported
+        const arr = missingKeys.get(missingKey) ?? [];
+        arr.push(bl);
+        missingKeys.set(missingKey, arr);
+      }
+    };
+
     for (const md of notes) {
       const cache = this.app.metadataCache.getFileCache(md);
       if (!cache) continue;
 
       const from = md.path;
+      const fromExcluded = !!this.excludedReason(from, false);
 
-      const rawLinks: string[] = [];
+      const rawLinks: { raw: string; source: BacklinkSource; alt?: string; offset?: number }[] = [];
       if (this.settings.linkSources.links) {
-        for (const x of cache.links ?? []) rawLinks.push(x.link);
+        for (const x of cache.links ?? []) {
+          rawLinks.push({ raw: x.link, source: "link", alt: x.displayText, offset: x.position.start.offset });
+        }
       }
       if (this.settings.linkSources.embeds) {
-        for (const x of cache.embeds ?? []) rawLinks.push(x.link);
+        for (const x of cache.embeds ?? []) {
+          rawLinks.push({ raw: x.link, source: "embed", alt: x.displayText, offset: x.position.start.offset });
+        }
       }
       if (this.settings.linkSources.frontmatter) {
-        for (const x of cache.frontmatterLinks ?? []) rawLinks.push(x.link);
+        for (const x of cache.frontmatterLinks ?? []) rawLinks.push({ raw: x.link, source: "frontmatter" });
+      }
+      for (const raw of this.frontmatterPathValues(cache.frontmatter)) {
+        rawLinks.push({ raw, source: "frontmatter" });
       }
 
-      for (const raw of rawLinks) {
+      for (const { raw, source, alt, offset } of rawLinks) {
         const parsed = this.parseLink(raw);
         if (!parsed) continue;
 
@@ -333,53 +820,84 @@ export default class KPlugin extends Plugin {
         if (!cleanedFilePart) continue;
         if (this.isExternal(cleanedFilePart)) continue;
 
-        const isExplicit = cleanedFilePart.includes("/");
-
-        const explicitDesired = isExplicit
-          ? this.normalizeExplicitToVaultPath(cleanedFilePart, from)
-          : undefined;
-
-        // resolve:
-        // 1) if explicitDesired exists => dest is that file
-        // 2) else try Obsidian resolver on cleanedFilePart
-        // 3) if still not found but explicitDesired exists: try basename fallback (so we can move it to explicit path)
-        let dest: TFile | null = null;
-
-        if (explicitDesired) {
-          const af = this.app.vault.getAbstractFileByPath(explicitDesired);
-          if (af instanceof TFile) dest = af;
-        }
-
-        if (!dest) {
-          dest = this.resolveToFileByObsidian(cleanedFilePart, from);
-
-          if (!dest && explicitDesired) {
-            const base = explicitDesired.split("/").pop() ?? explicitDesired;
-            dest = this.resolveToFileByObsidian(base, from);
-          }
-        }
+        const { dest, explicitDesired } = this.resolveLinkTarget(cleanedFilePart, from);
 
         const bl: Backlink = {
           from,
           raw,
           cleaned: cleanedFilePart,
           explicitPath: explicitDesired, // desired target if explicit
+          source,
+          // wiki embeds echo the link (or a size like 300x200) when there is no alias
+          alt: alt && alt !== raw && !/^\d+(x\d+)?$/.test(alt) ? alt : undefined,
+          offset,
+          excludedSource: fromExcluded || undefined,
         };
 
-        if (dest) {
-          const to = ensure(dest.path);
-          to.zone = this.zoneOf(to.path);
-          to.kind = this.kindOf(to.path);
+        addBacklink(bl, dest, explicitDesired ? explicitDesired : cleanedFilePart);
+      }
+    }
+
+    // canvases: file nodes are exact vault paths; they are rewritten on every
+    // move, so they don't pin the file (no explicitPath) and the canvas folder
+    // drives placement like a note's folder does
+    if (this.settings.linkSources.canvas) {
+      for (const canvas of this.listCanvasesByScope()) {
+        let refs: string[];
+        try {
+          refs = await this.canvasRefs.refsOf(canvas);
+        } catch {
+          continue;
+        }
+
+        for (const ref of refs) {
+          const path = normalizePath(ref);
+          const af = this.app.vault.getAbstractFileByPath(path);
+          const bl: Backlink = {
+            from: canvas.path,
+            raw: ref,
+            cleaned: path,
+            source: "canvas",
+            excludedSource: !!this.excludedReason(canvas.path, false) || undefined,
+          };
+          addBacklink(bl, af instanceof TFile ? af : null, path);
+        }
+      }
+    }
+
+    // extractors: syntaxes the metadata cache doesn't track (HTML, code blocks, plugins)
+    const extractors = this.extractorRegistry.enabled(this.settings.extractors);
+    if (extractors.length > 0) {
+      for (const file of this.listExtractorSourcesByScope(extractors)) {
+        let found: Map<string, ExtractedRef[]>;
+        try {
+          found = await this.extractorRegistry.refsOf(file, extractors);
+        } catch {
+          continue;
+        }
 
-          // push backlink (dedupe by from only)
-          if (!to.referencedByNotes.some((x) => x.from === bl.from)) {
-            to.referencedByNotes.push(bl);
+        for (const [id, refs] of found) {
+          for (const ref of refs) {
+            const parsed = this.parseLink(ref.raw);
+            if (!parsed) continue;
+
+            const { cleanedFilePart } = parsed;
+            if (this.isExternal(cleanedFilePart)) continue;
+
+            const { dest, explicitDesired } = this.resolveLinkTarget(cleanedFilePart, file.path);
+            if (!dest && ref.mustExist) continue;
+
+            const bl: Backlink = {
+              from: file.path,
+              raw: ref.raw,
+              cleaned: cleanedFilePart,
+              explicitPath: explicitDesired,
+              source: "extractor",
+              extractor: id,
+              excludedSource: !!this.excludedReason(file.path, false) || undefined,
+            };
+            addBacklink(bl, dest, explicitDesired ? explicitDesired : cleanedFilePart);
           }
-        } else {
-          const key = explicitDesired ? explicitDesired : cleanedFilePart;
-          const arr = missingKeys.get(key) ?? [];
-          arr.push(bl);
-          missingKeys.set(key, arr);
         }
       }
     }
@@ -397,62 +915,81 @@ export default class KPlugin extends Plugin {
       });
     }
 
+    /** Step 2a: references the scan didn't count (guards orphan moves and renames) */
+    await this.findOutsideScopeRefs(map);
+
+    /** Step 2b: duplicate groups by content hash (optional) */
+    let newHashes = 0;
+    let duplicates: DuplicateGroup[] = [];
+    if (this.settings.detectDuplicates) {
+      const found = await this.findDuplicates(map);
+      duplicates = found.groups;
+      newHashes += found.hashed;
+    }
+
     /** Step 3: plan actions (attachments only; OUT optional) */
+    const folders = this.settings.folderConfigs
+      ? this.app.vault.getAllLoadedFiles().filter((f): f is TFolder => f instanceof TFolder).map((f) => f.path === "/" ? "" : f.path)
+      : [];
+    for (const err of await this.folderConfigs.load(folders)) {
+      new Notice(`Invalid folder config ${err}`);
+    }
+
     for (const e of map.values()) {
       if (!this.isAttachmentKind(e.kind)) continue;
       if (e.tags.includes("missing")) continue;
+      this.planEntry(e, (p) => p);
+    }
 
-      // Zone B: only plan if referenced (move out); otherwise keep in staging
-      if (e.zone === "B") {
-        if (e.referencedByNotes.length === 0) {
-          e.action = { type: "keep" };
-          continue;
-        }
-        // Has references → fall through to normal planning
-      }
-
-      if (e.zone === "OUT" && !this.settings.planOutAttachments) {
-        e.action = { type: "keep" };
-        continue;
-      }
-
-      const n = e.referencedByNotes.length;
-
-      if (n === 0) {
-        e.action = { type: "moveToB", reason: "orphan" };
-        this.ensureTag(e, "orphan");
-        continue;
+    /** Step 3b: naming template (needs planned folders for index collisions) */
+    if (this.settings.naming.enabled && this.assignPlannedNames(map)) {
+      for (const e of map.values()) {
+        if (e.plannedName) this.planEntry(e, (p) => p);
       }
+    }
 
-      if (n === 1) {
-        const plan = this.planTargetForOneBacklink(e, e.referencedByNotes[0]);
-        e.action = plan ?? { type: "keep" };
-        continue;
+    // content-hash strategy needs hashes of planned movers (read async, cached)
+    if (this.settings.conflictStrategy === "content-hash") {
+      const movers: TFile[] = [];
+      for (const e of map.values()) {
+        if (e.action.type !== "moveTo" && e.action.type !== "moveToB") continue;
+        const af = this.app.vault.getAbstractFileByPath(e.path);
+        if (af instanceof TFile) movers.push(af);
       }
-
-      // n > 1
-      const plan = this.planTargetForMultiBacklink(e);
-      e.action = plan ?? { type: "keep" };
+      newHashes += await this.hashCache.hashAll(movers);
     }
+    if (newHashes > 0) await this.saveHashCache();
 
     /** Step 4: preview simulate + mark conflicts (both sides C; keep unchanged) */
-    const preview = this.simulatePreviewAndMarkConflicts(map);
+    const { preview, steps } = this.simulatePreviewAndMarkConflicts(map);
+
+    // illegal template targets stay put and show as conflicts
+    // (the plan of such a file has no move and no copies: see planCopiesPerNote)
+    for (const e of map.values()) {
+      if (e.invalidTarget) this.ensureConflict(e, "conflict-invalid-target");
+    }
 
     /** Stats */
     let notesN = 0,
       attachN = 0,
       todoN = 0,
       missN = 0,
-      conflictN = 0;
+      conflictN = 0,
+      dupN = 0,
+      outsideN = 0,
+      pinnedN = 0;
 
     for (const e of map.values()) {
       if (e.kind === "note-md") notesN++;
       if (this.isAttachmentKind(e.kind)) attachN++;
       if (e.tags.includes("missing")) missN++;
       if (this.isConflict(e)) conflictN++;
+      if (e.tags.includes("duplicate")) dupN++;
+      if (e.tags.includes("outside-scope")) outsideN++;
+      if (e.tags.includes("pinned")) pinnedN++;
 
       const mk = this.markOf(e);
-      if (mk === "B" || mk === "R" || mk === "C" || mk === "M") todoN++;
+      if (mk === "B" || mk === "R" || mk === "C" || mk === "M" || mk === "D") todoN++;
     }
 
     // which OUT to show: referenced or missing or conflict or preview targets
@@ -474,12 +1011,19 @@ export default class KPlugin extends Plugin {
     const report: DetectReport = {
       entries: reportEntries,
       preview,
+      steps,
+      duplicates,
+      excluded,
       stats: {
         notes: notesN,
         attachments: attachN,
         todo: todoN,
         missing: missN,
         conflicts: conflictN,
+        duplicates: dupN,
+        outsideScope: outsideN,
+        pinned: pinnedN,
+        excluded: excluded.length,
         total: map.size,
       },
     };
@@ -496,21 +1040,31 @@ export default class KPlugin extends Plugin {
    * 4. Progress feedback - shows operation progress
    */
   async applyPlan(skipConfirm = false): Promise<void> {
-    const report = this.detectReport(true);
+    // two profiles organizing the same folders would undo each other's moves
+    const overlaps = this.profileOverlaps([this.currentProfileName()]);
+    if (overlaps.length > 0) {
+      new Notice(`Profiles overlap, nothing applied:\n${overlaps.slice(0, 3).map((o) => o.message).join("\n")}`, 10000);
+      return;
+    }
+
+    const report = await this.detectReport(true);
 
     const moves = report.preview
       .filter((p): p is typeof p & { virtualFrom: string } => p.isPreview === true && typeof p.virtualFrom === 'string')
-      .map((p) => ({ from: normalizePath(p.virtualFrom), to: normalizePath(p.path) }));
+      .map((p) => ({
+        from: normalizePath(p.virtualFrom),
+        to: normalizePath(p.path),
+        // an original whose notes were relinked to copies leaves unreferenced
+        notes: p.copies ? [] : p.referencedByNotes.map((b) => b.from),
+        copy: !!p.copyOf,
+      }));
 
     if (moves.length === 0) {
       // Better feedback: explain WHY there are no moves
       // Reason: Users see C marks but don't understand they block moves
       const report2 = this.lastReport;
       if (report2) {
-        const conflicts = report2.entries.filter(e => 
-          e.tags.includes('conflict-target-occupied') || 
-          e.tags.includes('conflict-ambiguous-name')
-        ).length;
+        const conflicts = report2.entries.filter(e => this.isConflict(e)).length;
         const kept = report2.entries.filter(e => 
           e.action.type === 'keep' && !e.tags.includes('missing')
         ).length;
@@ -535,53 +1089,58 @@ export default class KPlugin extends Plugin {
     // Reason: Confirmation prevents accidental batch operations
     // Users should see what will happen before committing
     if (!skipConfirm) {
+      // files only out-of-scope notes reference are held back; say so
+      const outside = report.entries.filter((e) => e.tags.includes("outside-scope"));
+      const list = (title: string, entries: FileEntry[]) => entries.length === 0 ? '' :
+        `\n\n${title}: ${entries.length}\n` +
+        entries.slice(0, 5).map((e) => `• ${e.path} ← ${(e.outsideRefs ?? []).join(', ')}`).join('\n') +
+        (entries.length > 5 ? `\n... and ${entries.length - 5} more` : '');
+      const held =
+        list("Kept (referenced outside scope)", outside) +
+        list("Not renamed (referenced outside scope)", report.entries.filter((e) => e.nameKept));
+      const profile = this.settings.profiles.length > 1 ? ` (${this.currentProfileName()})` : '';
       const confirmed = await this.showConfirmDialog(
-        "Apply organizer plan",
+        `Apply organizer plan${profile}`,
         `This will move ${moves.length} file(s).\n\nAre you sure?`,
-        moves.slice(0, 5).map(m => `• ${m.from.split('/').pop()} → ${m.to}`).join('\n') +
-        (moves.length > 5 ? `\n... and ${moves.length - 5} more` : '')
+        moves.slice(0, 5).map(m => `• ${m.from.split('/').pop()} ${m.copy ? '⇒' : '→'} ${m.to}`).join('\n') +
+        (moves.length > 5 ? `\n... and ${moves.length - 5} more` : '') +
+        held
       );
       if (!confirmed) return;
     }
 
-    let ok = 0;
-    let fail = 0;
-    const errors: string[] = [];
-    const successfulMoves: { from: string; to: string }[] = [];
-
-    for (const mv of moves) {
-      try {
-        const af = this.app.vault.getAbstractFileByPath(mv.from);
-        if (!(af instanceof TFile)) {
-          fail++;
-          errors.push(`${mv.from}: file not found`);
-          continue;
+    // Execute in dependency order (chains, cycles via temp paths)
+    const bySource = new Map(moves.filter((m) => !m.copy).map((m) => [m.from, m]));
+    const reasonOf = new Map(report.entries.map((e) => [e.path, e.action.type === "keep" ? undefined : e.action.reason]));
+    const copyByTarget = new Map(moves.filter((m) => m.copy).map((m) => [m.to, m]));
+    // drawings/canvases moving in this batch get their edits at their new path
+    const finalOf = (path: string) => bySource.get(path)?.to ?? path;
+    const { ok, fail, errors } = await this.startBatch(
+      report.steps.map((st): JournalMove => {
+        if (st.copy) {
+          // each note gets an explicit link to its own copy
+          const cp = copyByTarget.get(st.to);
+          return {
+            from: st.from,
+            to: st.to,
+            status: "pending",
+            copy: true,
+            linkEdits: cp ? this.planLinkEdits(cp.from, cp.to, cp.notes, true, finalOf) : undefined,
+          };
         }
-
-        const folder = this.dirname(mv.to);
-        await this.ensureFolderExists(folder);
-
-        await this.app.vault.rename(af, mv.to);
-        successfulMoves.push(mv);
-        ok++;
-      } catch (e) {
-        fail++;
-        errors.push(`${mv.from}: ${e instanceof Error ? e.message : 'unknown error'}`);
-      }
-    }
-
-    // Store in undo history for potential rollback
-    // Reason: Users need ability to recover from mistakes
-    if (successfulMoves.length > 0) {
-      this.undoHistory.push({
-        timestamp: Date.now(),
-        moves: successfulMoves,
-      });
-      // Keep history bounded
-      while (this.undoHistory.length > MAX_UNDO_HISTORY) {
-        this.undoHistory.shift();
-      }
-    }
+        const mv = bySource.get(st.source);
+        // links are rewritten once the file reaches its real target
+        const final = !st.temp || st.from !== st.source;
+        return {
+          from: st.from,
+          to: st.to,
+          status: "pending",
+          temp: st.temp,
+          reason: reasonOf.get(st.source),
+          linkEdits: final && mv ? this.planLinkEdits(mv.from, mv.to, mv.notes, false, finalOf) : undefined,
+        };
+      })
+    );
 
     // Better feedback with error details
     // Reason: Users need to know what went wrong to fix issues
@@ -594,87 +1153,823 @@ export default class KPlugin extends Plugin {
     this.markDirtyAndScheduleRefresh(true);
   }
 
-  /** Undo the last batch operation
-   * Reason: Provides safety net for accidental batch moves
+  /** Merge byte-identical attachments: keep the canonical copy, point every
+   * reference to it and send the other copies to Staging (undoable batch).
    */
-  async undoLastOperation(): Promise<void> {
-    const entry = this.undoHistory.pop();
-    if (!entry) {
-      new Notice("Nothing to undo.");
+  async mergeDuplicates(): Promise<void> {
+    if (!this.settings.detectDuplicates) {
+      new Notice("Enable duplicate detection in settings first.");
+      return;
+    }
+    const staging = normalizePath(this.settings.zoneB || "");
+    if (!staging) {
+      new Notice("Set a staging folder to merge duplicates.");
       return;
     }
 
-    const confirmed = await this.showConfirmDialog(
-      "Undo last operation",
-      `This will revert ${entry.moves.length} file move(s) from ${new Date(entry.timestamp).toLocaleTimeString()}.`,
-      entry.moves.slice(0, 5).map(m => `• ${m.to.split('/').pop()} → ${m.from}`).join('\n') +
-      (entry.moves.length > 5 ? `\n... and ${entry.moves.length - 5} more` : '')
-    );
-    if (!confirmed) {
-      this.undoHistory.push(entry); // restore
+    const report = await this.detectReport(true);
+    if (report.duplicates.length === 0) {
+      new Notice("No duplicate attachments found.");
       return;
     }
 
-    let ok = 0;
-    let fail = 0;
+    const byPath = new Map(report.entries.map((e) => [e.path, e]));
+    const taken = new Set<string>();
+    const planned: { copy: string; to: string; canonical: string }[] = [];
+    for (const g of report.duplicates) {
+      for (const copy of g.copies) {
+        if (byPath.get(copy)?.tags.includes("pinned")) continue;
+        // copies already in Staging only need their links redirected
+        const to = this.zoneOf(copy) === "B" ? copy : this.uniquePathIn(staging, copy, taken);
+        taken.add(to);
+        planned.push({ copy, to, canonical: g.canonical });
+      }
+    }
 
-    // Reverse the moves
-    for (const mv of entry.moves) {
-      try {
-        const af = this.app.vault.getAbstractFileByPath(mv.to);
-        if (!(af instanceof TFile)) {
-          fail++;
-          continue;
-        }
+    // a referencing drawing may itself be a copy that moves in this batch
+    const movedTo = new Map(planned.map((x) => [x.copy, x.to]));
+    const finalOf = (path: string) => movedTo.get(path) ?? path;
+    const moves: JournalMove[] = [];
+    const lines: string[] = [];
+
+    for (const g of report.duplicates) {
+      lines.push(`• keep ${g.canonical}`);
+      for (const { copy, to } of planned.filter((x) => x.canonical === g.canonical)) {
+        const notes = (byPath.get(copy)?.referencedByNotes ?? []).map((b) => b.from);
+        const linkEdits = this.planLinkEdits(copy, g.canonical, notes, true, finalOf);
+        if (to === copy && linkEdits.length === 0) continue;
+
+        moves.push({ from: copy, to, status: "pending", linkEdits, reason: `duplicate of ${g.canonical}` });
+        lines.push(`   ${copy} → ${to}`);
+      }
+    }
 
-        const folder = this.dirname(mv.from);
-        await this.ensureFolderExists(folder);
+    const confirmed = await this.showConfirmDialog(
+      "Merge duplicates",
+      `This will merge ${report.duplicates.length} duplicate group(s): ${moves.length} copy(ies) go to staging and their links point to the kept file.`,
+      lines.slice(0, 12).join('\n') + (lines.length > 12 ? `\n... and ${lines.length - 12} more` : '')
+    );
+    if (!confirmed) return;
 
-        await this.app.vault.rename(af, mv.from);
-        ok++;
-      } catch {
-        fail++;
-      }
+    if (moves.length === 0) {
+      new Notice("Duplicates are already in staging and unreferenced.");
+      return;
     }
 
-    new Notice(`Undo: ${ok} restored, ${fail} failed.`);
+    const { ok, fail, errors } = await this.startBatch(moves);
+    if (fail > 0) {
+      new Notice(`Merged: ${ok} copy(ies), ${fail} failed.\n${errors.slice(0, 3).join('\n')}`, 8000);
+    } else {
+      new Notice(`✓ Merged ${ok} duplicate copy(ies).${this.canUndo() ? ' (undo available)' : ''}`);
+    }
     this.markDirtyAndScheduleRefresh(true);
   }
 
-  /** Show a confirmation dialog
-   * Reason: Modal confirmation prevents accidental destructive operations
+  /** ===== Staging retention =====
+   * Files the organizer moved into Staging that stayed unreferenced for
+   * `retention.days` go to the trash, after a review (or automatically on
+   * startup when few enough). Files without a staging record are never touched.
    */
-  private showConfirmDialog(title: string, message: string, details?: string): Promise<boolean> {
-    return new Promise((resolve) => {
-      const modal = new ConfirmModal(this.app, title, message, details, resolve);
-      modal.open();
+  private async stagingCandidates(): Promise<RetentionCandidate[]> {
+    const report = await this.detectReport(true);
+    const now = Date.now();
+    const maxAge = Math.max(0, this.settings.retention.days) * 24 * 60 * 60 * 1000;
+    const out: RetentionCandidate[] = [];
+
+    for (const e of report.entries) {
+      if (e.zone !== "B" || e.tags.includes("missing") || e.tags.includes("pinned")) continue;
+      if (e.referencedByNotes.length > 0 || e.outsideRefs?.length) continue;
+
+      const rec = this.stagingLog.get(e.path);
+      if (!rec || now - rec.stagedAt < maxAge) continue;
+
+      const af = this.app.vault.getAbstractFileByPath(e.path);
+      if (!(af instanceof TFile)) continue;
+      out.push({ path: e.path, size: af.stat.size, days: Math.floor((now - rec.stagedAt) / (24 * 60 * 60 * 1000)) });
+    }
+    return out.sort((a, b) => b.days - a.days || a.path.localeCompare(b.path));
+  }
+
+  /** List retention candidates and trash the ones the user keeps checked */
+  async reviewStagingRetention(): Promise<void> {
+    if (!this.settings.retention.enabled) {
+      new Notice("Enable staging retention in settings first.");
+      return;
+    }
+    const candidates = await this.stagingCandidates();
+    if (candidates.length === 0) {
+      new Notice(`Nothing in staging is older than ${this.settings.retention.days} day(s) and unreferenced.`);
+      return;
+    }
+    const paths = await new Promise<string[] | null>((resolve) => {
+      new RetentionModal(this.app, candidates, resolve).open();
     });
+    if (paths?.length) await this.trashStaged(paths);
   }
 
-  /** ===== preview/conflict ===== */
-  private simulatePreviewAndMarkConflicts(map: Map<string, FileEntry>): FileEntry[] {
-    const plannedTargets = new Map<string, string>(); // targetPath -> entry.path
-    const plannedName = new Map<string, string>(); // nameKey -> entry.path
-    const plannedFolderName = new Map<string, string>(); // folderKey::nameKey -> entry.path
+  /** Startup run of automatic mode: more candidates than the threshold need a review */
+  private async autoStagingRetention(): Promise<void> {
+    const r = this.settings.retention;
+    if (!r.enabled || !r.auto) return;
 
-    // existing names for ambiguous
-    const existingByName = new Map<string, string[]>();
-    for (const f of this.app.vault.getFiles()) {
-      const key = this.nameKey(f.path);
-      const arr = existingByName.get(key) ?? [];
-      arr.push(f.path);
-      existingByName.set(key, arr);
+    const candidates = await this.stagingCandidates();
+    if (candidates.length === 0) return;
+    if (candidates.length > r.autoMax) {
+      await this.reviewStagingRetention();
+      return;
     }
+    await this.trashStaged(candidates.map((c) => c.path));
+  }
 
-    const candidates = [...map.values()]
-      .filter((e) => this.isAttachmentKind(e.kind))
-      .filter((e) => !e.tags.includes("missing"))
-      .filter((e) => e.action.type === "moveToB" || e.action.type === "moveTo")
-      .sort((a, b) => a.path.localeCompare(b.path));
+  /** Resolves on the metadata cache's next "resolved" event (all links indexed).
+   * Created in onload, so on startup it catches the initial indexing; when the
+   * plugin is enabled later, it waits for the next re-index.
+   */
+  private metadataResolved(): Promise<void> {
+    return new Promise((resolve) => {
+      const ref = this.app.metadataCache.on("resolved", () => {
+        this.app.metadataCache.offref(ref);
+        resolve();
+      });
+      this.registerEvent(ref);
+    });
+  }
 
-    const preview: FileEntry[] = [];
+  private async trashStaged(paths: string[]): Promise<void> {
+    // notes may have changed while the review was open: trash only what is still a candidate
+    const still = new Set((await this.stagingCandidates()).map((c) => c.path));
+    let ok = 0;
+    let fail = 0;
+    let kept = 0;
+    for (const path of paths) {
+      if (!still.has(path)) {
+        kept++;
+        continue;
+      }
+      const af = this.app.vault.getAbstractFileByPath(path);
+      try {
+        if (!(af instanceof TFile)) throw new Error("file not found");
+        // follows the user's "Deleted files" setting (system trash or .trash)
+        await this.app.fileManager.trashFile(af);
+        ok++;
+      } catch {
+        fail++;
+      }
+    }
+    await this.persistData();
+    new Notice(
+      `Staging retention: ${ok} file(s) moved to trash` +
+        (kept > 0 ? `, ${kept} kept (referenced or pinned since)` : "") +
+        (fail > 0 ? `, ${fail} failed` : "") +
+        "."
+    );
+    this.markDirtyAndScheduleRefresh(true);
+  }
 
-    const rollbackPlanned = (entryPath: string, tag: string) => {
+  /** Manifest record of a file the organizer moved into Staging */
+  stagedInfo(path: string): StagedRecord | null {
+    return this.stagingLog.get(normalizePath(path)) ?? null;
+  }
+
+  /** Move a staged file back to where the organizer took it from (undoable batch).
+   * Works from the manifest, so it does not depend on the undo history.
+   */
+  async restoreToOrigin(path: string, pin = false): Promise<void> {
+    const p = normalizePath(path);
+    const origin = this.stagingLog.get(p)?.origin;
+    if (!origin) {
+      new Notice("No recorded origin for this file.");
+      return;
+    }
+    if (this.app.vault.getAbstractFileByPath(origin)) {
+      new Notice(`Cannot restore: ${origin} is occupied.`);
+      return;
+    }
+
+    // notes that linked to it while staged keep working after the move
+    const report = await this.detectReport(false);
+    const entry = report.entries.find((e) => e.path === p);
+    const notes = (entry?.referencedByNotes ?? []).map((b) => b.from);
+    const { ok, errors } = await this.startBatch([
+      { from: p, to: origin, status: "pending", reason: "restore to origin", linkEdits: this.planLinkEdits(p, origin, notes) },
+    ]);
+    if (ok === 0) {
+      new Notice(`Restore failed: ${errors[0] ?? "unknown error"}`);
+      this.markDirtyAndScheduleRefresh(true);
+      return;
+    }
+    // Reason: the plan that staged it would stage it again on the next apply
+    // (an orphan is still an orphan); a pin, when asked for, keeps it where the user put it
+    const pinned = pin && !this.pinOf(origin);
+    if (pinned) {
+      this.settings.pinned = [...this.settings.pinned, origin];
+      await this.saveSettings();
+    } else {
+      this.markDirtyAndScheduleRefresh(true);
+    }
+    const orphan = notes.length === 0 && !entry?.outsideRefs?.length;
+    new Notice(
+      `Restored ${p.split("/").pop() ?? p} to ${origin}.` +
+      (pinned
+        ? " It is pinned so the next apply leaves it there; unpin it from its menu."
+        : orphan && !this.pinOf(origin)
+          ? " Nothing references it, so the next apply may stage it again; pin it to keep it there."
+          : ""),
+      pinned || orphan ? 8000 : undefined
+    );
+  }
+
+  /** Journal a new batch (write-ahead), then run it */
+  private async startBatch(moves: JournalMove[]): Promise<{ ok: number; fail: number; errors: string[] }> {
+    // Write-ahead: journal the whole batch before touching any file
+    // Reason: a crash mid-batch must leave a record of what happened
+    const batch: PendingBatch = { id: this.newUndoId(), timestamp: Date.now(), moves };
+    this.pendingBatches.push(batch);
+    await this.persistData();
+
+    return this.runBatch(batch);
+  }
+
+  /** Execute the pending moves of a write-ahead batch, journaling every step.
+   * Once finished, the batch leaves the pending list and lands in the undo history.
+   */
+  private async runBatch(batch: PendingBatch): Promise<{ ok: number; fail: number; errors: string[] }> {
+    let ok = 0;
+    let fail = 0;
+    const errors: string[] = [];
+
+    for (const mv of batch.moves) {
+      if (mv.status !== "pending") continue;
+      try {
+        const af = mv.copy ? await this.duplicate(mv.from, mv.to) : await this.relocate(mv.from, mv.to);
+        mv.status = "done";
+        mv.mtime = af.stat.mtime;
+        mv.size = af.stat.size;
+        ok++;
+        if (!mv.copy) this.noteStaged(this.originIn(batch.moves, mv), mv.to, mv.reason);
+      } catch (e) {
+        mv.status = "failed";
+        fail++;
+        errors.push(`${mv.from}: ${e instanceof Error ? e.message : 'unknown error'}`);
+      } finally {
+        await this.persistData();
+      }
+    }
+
+    // Links are rewritten once every file is in place: edits are keyed to
+    // where their note ends up, which may be a move later in this batch
+    // (notes whose own move failed are still where they were)
+    const notDone = batch.moves.filter((m) => m.status !== "done");
+    errors.push(...(await this.applyLinkEdits(
+      this.linkEditsOf(batch.moves.filter((m) => m.status === "done")),
+      false,
+      (p) => this.pathBefore(p, notDone)
+    )));
+
+    this.finalizeBatch(batch);
+    await this.persistData();
+    return { ok, fail, errors };
+  }
+
+  /** Move a file, creating the target folder; throws when it can't.
+   * from === to is a no-op step that only carries link edits.
+   */
+  private async relocate(from: string, to: string): Promise<TFile> {
+    const af = this.app.vault.getAbstractFileByPath(from);
+    if (!(af instanceof TFile)) throw new Error("file not found");
+    if (from === to) return af;
+    if (this.app.vault.getAbstractFileByPath(to)) throw new Error("target path is occupied");
+
+    await this.ensureFolderExists(this.dirname(to));
+    await this.app.vault.rename(af, to);
+    return af;
+  }
+
+  /** Copy a file to a free path, creating the target folder; throws when it can't */
+  private async duplicate(from: string, to: string): Promise<TFile> {
+    const af = this.app.vault.getAbstractFileByPath(from);
+    if (!(af instanceof TFile)) throw new Error("file not found");
+    if (this.app.vault.getAbstractFileByPath(to)) throw new Error("target path is occupied");
+
+    await this.ensureFolderExists(this.dirname(to));
+    return this.app.vault.copy(af, to);
+  }
+
+  /** Add a file the organizer just put into Staging to the manifest
+   * (a record carried along by a rename inside Staging is kept)
+   */
+  private noteStaged(origin: string, path: string, reason?: string): void {
+    if (origin === path || this.zoneOf(path) !== "B") return;
+    this.stagingLog.record(path, { stagedAt: Date.now(), origin, reason });
+  }
+
+  /** Where a move started before any temporary hops of its swap/cycle */
+  private originIn(moves: UndoMove[], mv: UndoMove): string {
+    let from = mv.from;
+    for (let i = moves.indexOf(mv) - 1; i >= 0; i--) {
+      const prev = moves[i];
+      if (prev.temp && !prev.copy && prev.to === from) from = prev.from;
+    }
+    return from;
+  }
+
+  /** Undo a move: move back, or for a copy, trash the copy */
+  private async restore(mv: UndoMove): Promise<void> {
+    if (!mv.copy) {
+      await this.relocate(mv.to, mv.from);
+      return;
+    }
+    const af = this.app.vault.getAbstractFileByPath(mv.to);
+    if (!(af instanceof TFile)) throw new Error("copy not found");
+    await this.app.fileManager.trashFile(af);
+  }
+
+  /** Plan link rewrites for moving `from` → `to`
+   * Canvas file nodes hold exact paths, so they are always rewritten.
+   * In notes, explicit-path links (folder/img.png, ../img.png) are rewritten in
+   * "rewrite-links" mode; name-only links only when the basename changes.
+   * Plain paths (frontmatter path keys, extractor matches) follow the same rules.
+   * `finalOf` maps a note to where it ends up when it moves in the same batch
+   * (drawings, canvases): edits are keyed to that path and relative links
+   * are computed from its folder.
+   */
+  private planLinkEdits(
+    from: string,
+    to: string,
+    notePaths: string[],
+    forcePath = false,
+    finalOf: (path: string) => string = (p) => p
+  ): LinkEdit[] {
+    const renamed = this.isRenamed({ from, to });
+    const rewriteNotes = forcePath || renamed || this.settings.moveMode === "rewrite-links";
+    const edits: LinkEdit[] = [];
+    const extractors = this.extractorRegistry.enabled(this.settings.extractors);
+
+    for (const notePath of new Set(notePaths)) {
+      const note = this.app.vault.getAbstractFileByPath(notePath);
+      if (!(note instanceof TFile)) continue;
+      const finalPath = finalOf(notePath);
+
+      if (note.extension === "canvas") {
+        const refs = this.canvasRefs.peek(notePath) ?? [];
+        if (refs.some((r) => normalizePath(r) === from)) {
+          edits.push({ note: finalPath, before: JSON.stringify(from), after: JSON.stringify(to) });
+        }
+        continue;
+      }
+      if (!rewriteNotes) continue;
+
+      // files other extractors read (not markdown) have no metadata cache
+      const cache = this.app.metadataCache.getFileCache(note);
+      const refs = cache ? [...(cache.links ?? []), ...(cache.embeds ?? []), ...(cache.frontmatterLinks ?? [])] : [];
+      for (const ref of refs) {
+        const parsed = this.parseLink(ref.link);
+        if (!parsed) continue;
+        if (!renamed && !forcePath && !parsed.cleanedFilePart.includes("/")) continue;
+
+        const { dest } = this.resolveLinkTarget(parsed.cleanedFilePart, notePath);
+        if (!dest || dest.path !== from) continue;
+
+        const after = rewriteLink(ref.original, to, finalPath, forcePath);
+        if (!after || after === ref.original) continue;
+        if (edits.some((x) => x.note === finalPath && x.before === ref.original)) continue;
+
+        edits.push({ note: finalPath, before: ref.original, after });
+      }
+
+      // plain paths the metadata cache doesn't track: frontmatter path keys, HTML src, code blocks
+      const bare = [
+        ...this.frontmatterPathValues(cache?.frontmatter),
+        ...this.extractorRegistry.peek(note, extractors).map((r) => r.raw),
+      ];
+      for (const raw of bare) {
+        const parsed = this.parseLink(raw);
+        if (!parsed) continue;
+        if (!renamed && !forcePath && !parsed.cleanedFilePart.includes("/")) continue;
+
+        const { dest } = this.resolveLinkTarget(parsed.cleanedFilePart, notePath);
+        if (!dest || dest.path !== from) continue;
+
+        const after = rewritePath(raw, to, finalPath, forcePath);
+        if (after === raw || edits.some((x) => x.note === finalPath && x.before === raw)) continue;
+
+        edits.push({ note: finalPath, before: raw, after, bare: true });
+      }
+    }
+
+    return edits;
+  }
+
+  /** Where a file at `path` is once `moves` (in batch order) are taken back */
+  private pathBefore(path: string, moves: UndoMove[]): string {
+    let p = path;
+    for (let i = moves.length - 1; i >= 0; i--) {
+      if (!moves[i].copy && moves[i].to === p) p = moves[i].from;
+    }
+    return p;
+  }
+
+  private linkEditsOf(moves: UndoMove[]): LinkEdit[] {
+    const out: LinkEdit[] = [];
+    for (const mv of moves) out.push(...(mv.linkEdits ?? []));
+    return out;
+  }
+
+  /** Apply (or with reverse=true, undo) link rewrites in note text.
+   * `noteAt` maps an edit's note path to where the note is now.
+   * Returns one message per note that could not be updated.
+   */
+  private async applyLinkEdits(
+    edits: LinkEdit[],
+    reverse = false,
+    noteAt: (path: string) => string = (p) => p
+  ): Promise<string[]> {
+    const failed: string[] = [];
+    const byNote = new Map<string, LinkEdit[]>();
+    for (const ed of edits) {
+      const path = noteAt(ed.note);
+      const arr = byNote.get(path) ?? [];
+      arr.push(ed);
+      byNote.set(path, arr);
+    }
+
+    for (const [notePath, list] of byNote) {
+      const note = this.app.vault.getAbstractFileByPath(notePath);
+      if (!(note instanceof TFile)) {
+        if (!reverse) for (const ed of list) ed.count = 0;
+        failed.push(`${notePath}: links not updated (note not found)`);
+        continue;
+      }
+      try {
+        await this.app.vault.process(note, (text) => {
+          let out = text;
+          for (const ed of list) {
+            const replace = ed.bare ? replaceBarePath : replaceAllText;
+            // Reason: undo must not touch links to the new path the user added since;
+            // edits journaled without a count revert every occurrence, as before
+            const res = reverse ? replace(out, ed.after, ed.before, ed.count) : replace(out, ed.before, ed.after);
+            if (!reverse) ed.count = res.count;
+            out = res.text;
+          }
+          return out;
+        });
+      } catch (e) {
+        // the file move itself still stands; the user must fix these links
+        if (!reverse) for (const ed of list) ed.count = 0;
+        failed.push(`${notePath}: links not updated (${e instanceof Error ? e.message : 'unknown error'})`);
+      }
+    }
+    return failed;
+  }
+
+  private isRenamed(mv: { from: string; to: string }): boolean {
+    return (mv.from.split("/").pop() ?? mv.from) !== (mv.to.split("/").pop() ?? mv.to);
+  }
+
+  /** Drop a batch from the pending list and store its completed moves for undo */
+  private finalizeBatch(batch: PendingBatch): void {
+    this.pendingBatches = this.pendingBatches.filter((b) => b.id !== batch.id);
+
+    const done: UndoMove[] = batch.moves
+      .filter((m) => m.status === "done")
+      .map(({ from, to, mtime, size, linkEdits, temp, copy, reason }) => ({ from, to, mtime, size, linkEdits, temp, copy, reason }));
+    if (done.length === 0) return;
+
+    // Store in undo history for potential rollback
+    // Reason: Users need ability to recover from mistakes
+    this.undoHistory.push({ id: batch.id, timestamp: batch.timestamp, moves: done });
+    // Keep history bounded
+    while (this.undoHistory.length > MAX_UNDO_HISTORY) {
+      this.undoHistory.shift();
+    }
+  }
+
+  /** Offer to finish or roll back batches left unfinished by a crash/close
+   * Reason: without this the vault stays half-organized with no record of why
+   */
+  async recoverPendingBatches(): Promise<void> {
+    if (this.pendingBatches.length === 0) return;
+
+    for (const batch of [...this.pendingBatches]) {
+      // A crash between rename and journal write leaves a "pending" move
+      // that actually happened; detect that from the vault state.
+      for (const mv of batch.moves) {
+        if (mv.status !== "pending") continue;
+        const atTo = this.app.vault.getAbstractFileByPath(mv.to) instanceof TFile;
+        const atFrom = this.app.vault.getAbstractFileByPath(mv.from) instanceof TFile;
+        if (mv.copy ? atTo && atFrom : atTo && !atFrom) mv.status = "done";
+      }
+
+      const done = batch.moves.filter((m) => m.status === "done");
+      const pending = batch.moves.filter((m) => m.status === "pending");
+
+      const choice = await new Promise<RecoveryChoice | null>((resolve) => {
+        new RecoveryModal(this.app, {
+          timestamp: batch.timestamp,
+          done: done.map((m) => `${m.from} ${m.copy ? "⇒" : "→"} ${m.to}`),
+          pending: pending.map((m) => `${m.from} ${m.copy ? "⇒" : "→"} ${m.to}`),
+        }, resolve).open();
+      });
+
+      // a crash may have hit between the moves and the link rewrites;
+      // finishing rewrites the links of every done move after the pending ones
+      if (choice === "keep") {
+        const notDone = batch.moves.filter((m) => m.status !== "done");
+        const failed = await this.applyLinkEdits(this.linkEditsOf(done), false, (p) => this.pathBefore(p, notDone));
+        if (failed.length > 0) new Notice(`Links not updated:\n${failed.slice(0, 3).join('\n')}`, 8000);
+      }
+
+      if (choice === "finish") {
+        const { ok, fail, errors } = await this.runBatch(batch);
+        new Notice(`Finished batch: ${ok} moved, ${fail} failed.${errors.length ? `\n${errors.slice(0, 3).join('\n')}` : ''}`);
+      } else if (choice === "rollback") {
+        const { ok, fail } = await this.rollbackBatch(batch);
+        new Notice(
+          `Rolled back batch: ${ok} restored, ${fail} failed.` +
+            (fail > 0 ? `\nThe ${fail} move(s) left are in the organizer history to revert later.` : ""),
+          fail > 0 ? 8000 : undefined
+        );
+      } else if (choice === "keep") {
+        this.finalizeBatch(batch);
+        await this.persistData();
+      }
+      // null => decide later; batch stays pending
+    }
+
+    this.markDirtyAndScheduleRefresh(true);
+  }
+
+  /** Move the completed moves of a batch back and forget the batch.
+   * Moves that could not be restored go to the undo history, so they can
+   * still be reverted from there.
+   */
+  private async rollbackBatch(batch: PendingBatch): Promise<{ ok: number; fail: number }> {
+    let ok = 0;
+    let fail = 0;
+
+    const restored: JournalMove[] = [];
+    for (const mv of [...batch.moves].reverse()) {
+      if (mv.status !== "done") continue;
+      try {
+        await this.restore(mv);
+        mv.status = "pending";
+        restored.unshift(mv);
+        ok++;
+      } catch {
+        fail++;
+      } finally {
+        await this.persistData();
+      }
+    }
+    // notes that moved back (or never moved) are found at their old path
+    const notDone = batch.moves.filter((m) => m.status !== "done");
+    await this.applyLinkEdits(this.linkEditsOf(restored), true, (p) => this.pathBefore(p, notDone));
+
+    // still-done moves stay journaled (as history) instead of vanishing
+    this.finalizeBatch(batch);
+    await this.persistData();
+    return { ok, fail };
+  }
+
+  /** Undo the last batch operation
+   * Reason: Provides safety net for accidental batch moves
+   */
+  async undoLastOperation(): Promise<void> {
+    const entry = this.getLastUndo();
+    if (!entry) {
+      new Notice("Nothing to undo.");
+      return;
+    }
+    await this.revertMoves(entry.id, undefined, "Undo last operation");
+  }
+
+  /** Open the history modal listing every journaled batch */
+  openHistory(): void {
+    new HistoryModal(this.app, {
+      getJournal: () => this.undoHistory,
+      checkMove: (mv, direction) => this.checkUndoMove(mv, direction),
+      revertBatch: (id) => this.revertMoves(id, undefined, "Revert batch"),
+      // a move inside a swap/cycle reverts with the rest of it
+      revertMove: (id, index) => {
+        const moves = this.undoHistory.find((x) => x.id === id)?.moves ?? [];
+        const group = cycleGroupOf(moves, index);
+        return this.revertMoves(id, group, group.length > 1 ? "Revert swap" : "Revert move");
+      },
+      redoBatch: (id) => this.redoBatch(id),
+      clearHistory: async () => {
+        this.undoHistory = [];
+        await this.persistData();
+      },
+    }).open();
+  }
+
+  /** Describe why a journaled move may not be safe to revert/redo (null = safe)
+   * Reason: Files can be edited, moved or replaced after a batch was applied;
+   * users must see that before blindly moving things back.
+   */
+  checkUndoMove(mv: UndoMove, direction: "revert" | "redo"): string | null {
+    // temp hops only make sense replayed with the whole batch
+    if (mv.temp || mv.from === mv.to) return null;
+
+    const src = direction === "revert" ? mv.to : mv.from;
+    const dst = direction === "revert" ? mv.from : mv.to;
+
+    const af = this.app.vault.getAbstractFileByPath(src);
+    if (!(af instanceof TFile)) {
+      return direction === "revert" ? "moved or deleted since" : "not found at original path";
+    }
+    // reverting a copy deletes it; the original stays where it is
+    if (mv.copy && direction === "revert") {
+      return mv.mtime !== undefined && (af.stat.mtime !== mv.mtime || af.stat.size !== mv.size) ? "modified since" : null;
+    }
+    if (this.app.vault.getAbstractFileByPath(dst)) {
+      return direction === "revert" ? "original path is occupied" : "target path is occupied";
+    }
+    if (direction === "revert" && mv.mtime !== undefined && (af.stat.mtime !== mv.mtime || af.stat.size !== mv.size)) {
+      return "modified since";
+    }
+    return null;
+  }
+
+  /** Revert some (or all, when indices is undefined) moves of a journaled batch */
+  async revertMoves(entryId: string, indices: number[] | undefined, title: string): Promise<void> {
+    const entry = this.undoHistory.find((x) => x.id === entryId);
+    if (!entry) {
+      new Notice("Batch not found in history.");
+      return;
+    }
+
+    const picked = entry.moves
+      .map((mv, i) => ({ mv, i }))
+      .filter(({ mv, i }) => !mv.reverted && (!indices || indices.includes(i)));
+    if (picked.length === 0) {
+      new Notice("Nothing to revert.");
+      return;
+    }
+
+    const flagged = picked
+      .map(({ mv }) => ({ mv, flag: this.checkUndoMove(mv, "revert") }))
+      .filter((x): x is { mv: UndoMove; flag: string } => x.flag !== null);
+
+    const lines = picked.slice(0, 5).map(({ mv }) =>
+      mv.copy ? `• remove copy ${mv.to}` : `• ${mv.to.split('/').pop()} → ${mv.from}`
+    );
+    if (picked.length > 5) lines.push(`... and ${picked.length - 5} more`);
+    if (flagged.length > 0) {
+      lines.push("", `⚠ ${flagged.length} flagged:`);
+      lines.push(...flagged.slice(0, 5).map((x) => `• ${x.mv.to}: ${x.flag}`));
+    }
+
+    const confirmed = await this.showConfirmDialog(
+      title,
+      `This will revert ${picked.length} file move(s) from ${new Date(entry.timestamp).toLocaleString()}.`,
+      lines.join('\n')
+    );
+    if (!confirmed) return;
+
+    let ok = 0;
+    let fail = 0;
+
+    // Reverse the moves (last moved first), then their link rewrites
+    const restored: UndoMove[] = [];
+    for (const { mv } of [...picked].reverse()) {
+      try {
+        await this.restore(mv);
+        mv.reverted = true;
+        restored.push(mv);
+        ok++;
+      } catch {
+        fail++;
+      }
+    }
+    const reverted = entry.moves.filter((m) => m.reverted);
+    const failed = await this.applyLinkEdits(this.linkEditsOf(restored), true, (p) => this.pathBefore(p, reverted));
+
+    await this.persistData();
+    new Notice(`Undo: ${ok} restored, ${fail} failed.${failed.length ? `\n${failed.slice(0, 3).join('\n')}` : ''}`);
+    this.markDirtyAndScheduleRefresh(true);
+  }
+
+  /** Re-apply the reverted moves of a journaled batch */
+  async redoBatch(entryId: string): Promise<void> {
+    const entry = this.undoHistory.find((x) => x.id === entryId);
+    const picked = entry ? entry.moves.filter((mv) => mv.reverted) : [];
+    if (!entry || picked.length === 0) {
+      new Notice("Nothing to redo.");
+      return;
+    }
+
+    const flagged = picked
+      .map((mv) => ({ mv, flag: this.checkUndoMove(mv, "redo") }))
+      .filter((x): x is { mv: UndoMove; flag: string } => x.flag !== null);
+
+    const lines = picked.slice(0, 5).map((mv) => `• ${mv.from.split('/').pop()} ${mv.copy ? '⇒' : '→'} ${mv.to}`);
+    if (picked.length > 5) lines.push(`... and ${picked.length - 5} more`);
+    if (flagged.length > 0) {
+      lines.push("", `⚠ ${flagged.length} flagged (will be skipped):`);
+      lines.push(...flagged.slice(0, 5).map((x) => `• ${x.mv.from}: ${x.flag}`));
+    }
+
+    const confirmed = await this.showConfirmDialog(
+      "Redo batch",
+      `This will re-apply ${picked.length} file move(s) from ${new Date(entry.timestamp).toLocaleString()}.`,
+      lines.join('\n')
+    );
+    if (!confirmed) return;
+
+    let ok = 0;
+    let fail = 0;
+
+    const redone: UndoMove[] = [];
+    for (const mv of picked) {
+      try {
+        const af = mv.copy ? await this.duplicate(mv.from, mv.to) : await this.relocate(mv.from, mv.to);
+        if (!mv.copy) this.noteStaged(this.originIn(entry.moves, mv), mv.to, mv.reason);
+        mv.reverted = false;
+        mv.mtime = af.stat.mtime;
+        mv.size = af.stat.size;
+        redone.push(mv);
+        ok++;
+      } catch {
+        fail++;
+      }
+    }
+    // links last, once every note that moves again is at its new path
+    const stillReverted = entry.moves.filter((m) => m.reverted);
+    const failed = await this.applyLinkEdits(this.linkEditsOf(redone), false, (p) => this.pathBefore(p, stillReverted));
+
+    await this.persistData();
+    new Notice(`Redo: ${ok} moved, ${fail} failed.${failed.length ? `\n${failed.slice(0, 3).join('\n')}` : ''}`);
+    this.markDirtyAndScheduleRefresh(true);
+  }
+
+  /** Show a confirmation dialog
+   * Reason: Modal confirmation prevents accidental destructive operations
+   */
+  private showConfirmDialog(title: string, message: string, details?: string): Promise<boolean> {
+    return new Promise((resolve) => {
+      const modal = new ConfirmModal(this.app, title, message, details, resolve);
+      modal.open();
+    });
+  }
+
+  /** ===== preview/conflict ===== */
+  private simulatePreviewAndMarkConflicts(map: Map<string, FileEntry>): { preview: FileEntry[]; steps: MoveStep[] } {
+    const plannedTargets = new Map<string, string>(); // targetPath -> entry.path
+    const plannedName = new Map<string, string>(); // nameKey -> entry.path
+    const plannedFolderName = new Map<string, string>(); // folderKey::nameKey -> entry.path
+    const plannedCopies = new Map<string, string>(); // copy targetPath -> entry.path
+
+    // existing names for ambiguous
+    const existingByName = new Map<string, string[]>();
+    for (const f of this.app.vault.getFiles()) {
+      const key = this.nameKey(f.path);
+      const arr = existingByName.get(key) ?? [];
+      arr.push(f.path);
+      existingByName.set(key, arr);
+    }
+
+    // files referenced by drawings follow the drawing: plan drawings first
+    // (by nesting depth), then re-plan their files from the drawing's target
+    const parentsOf = (e: FileEntry) =>
+      [...new Set(this.ownersOf(e).map((bl) => bl.from))].filter((p) => map.get(p)?.kind === "attachment-md");
+
+    const depth = new Map<string, number>();
+    const depthOf = (e: FileEntry, seen: Set<string>): number => {
+      const known = depth.get(e.path);
+      if (known !== undefined) return known;
+      if (seen.has(e.path)) return 0; // drawings embedding each other
+      seen.add(e.path);
+
+      let d = 0;
+      for (const p of parentsOf(e)) {
+        const parent = map.get(p);
+        if (parent) d = Math.max(d, depthOf(parent, seen) + 1);
+      }
+      depth.set(e.path, d);
+      return d;
+    };
+
+    const candidates = [...map.values()]
+      .filter((e) => this.isAttachmentKind(e.kind))
+      .filter((e) => !e.tags.includes("missing"))
+      .filter((e) => e.action.type === "moveToB" || e.action.type === "moveTo" || !!e.copies || parentsOf(e).length > 0)
+      .sort((a, b) => depthOf(a, new Set()) - depthOf(b, new Set()) || a.path.localeCompare(b.path));
+
+    // entry.path -> location of each parent drawing its plan was based on
+    const followed = new Map<string, Map<string, string>>();
+    const locate = (p: string) => {
+      for (const [t, ep] of plannedTargets) {
+        if (ep === p) return t;
+      }
+      return p;
+    };
+
+    // entry.path -> path of the planned mover currently sitting on its target
+    // Reason: a target held by a file that moves away is a chain, not a conflict
+    const waitsFor = new Map<string, string>();
+
+    const rollbackPlanned = (entryPath: string, tag: string) => {
       const e = map.get(entryPath);
       if (!e) return;
 
@@ -690,13 +1985,20 @@ export default class KPlugin extends Plugin {
         }
       }
 
+      for (const [t, ep] of plannedCopies) {
+        if (ep === entryPath) plannedCopies.delete(t);
+      }
+
       this.ensureConflict(e, tag);
       e.action = { type: "keep" };
+      e.renamed = undefined;
+      e.copies = undefined;
     };
 
     const markBothAndRollback = (a: FileEntry, bPath: string, tag: string) => {
       this.ensureConflict(a, tag);
       a.action = { type: "keep" };
+      a.renamed = undefined;
 
       const b = map.get(bPath);
       if (b) {
@@ -708,96 +2010,572 @@ export default class KPlugin extends Plugin {
 
     for (const e of candidates) {
       if (this.isConflict(e)) continue;
+      e.renamed = undefined; // probed afresh from the planned target (see targetOf)
+
+      const parents = parentsOf(e);
+      if (parents.length > 0) {
+        this.planEntry(e, locate);
+        const used = new Map(parents.map((p): [string, string] => [p, locate(p)]));
+        followed.set(e.path, used);
+        e.follows = parents.filter((p) => used.get(p) !== p);
+        if (e.follows.length === 0) e.follows = undefined;
+        if (e.action.type !== "moveToB" && e.action.type !== "moveTo" && !e.copies) continue;
+      }
+
+      // copies must land on free paths; the same name elsewhere is the point of copying
+      if (e.copies) {
+        const clash = e.copies
+          .map((c) => plannedTargets.get(c.target) ?? plannedCopies.get(c.target) ?? this.app.vault.getAbstractFileByPath(c.target)?.path)
+          .find((x): x is string => x !== undefined);
+        if (clash) {
+          this.ensureConflict(e, "conflict-target-occupied");
+          e.conflictWith = [clash];
+          e.action = { type: "keep" };
+          e.copies = undefined;
+          continue;
+        }
+        for (const c of e.copies) plannedCopies.set(c.target, e.path);
+      }
+
+      const original = this.targetOf(e);
+      if (!original) {
+        e.action = { type: "keep" };
+        continue;
+      }
+      if (normalizePath(original) === normalizePath(e.path)) {
+        e.action = { type: "keep" };
+        continue;
+      }
+
+      const explicitMove = e.action.type === "moveTo" && !!e.action.explicit;
+
+      // (4) global ambiguous-name applies? (folder of the owning note, else of the file)
+      const owner = this.ownersOf(e)[0]?.from ?? e.path;
+      const gmode = this.folderSettingsFor(e, this.dirname(owner), "globalNameCheck").globalNameCheck;
+      const shouldCheckGlobal = gmode !== "off" && (gmode === "on-even-explicit" || !explicitMove);
+
+      const probe = (t: string): TargetProbe => {
+        // (1) target path collision with planned target (or copy)
+        const occupiedBy = plannedTargets.get(t) ?? plannedCopies.get(t);
+        if (occupiedBy) return { kind: "planned", tag: "conflict-target-occupied", with: occupiedBy };
+
+        // (2) existing file occupies target
+        let waits: string | undefined;
+        const af = this.app.vault.getAbstractFileByPath(t);
+        const occMover = af instanceof TFile ? map.get(af.path) : undefined;
+        if (occMover && occMover !== e && this.isPlannedMover(occMover)) {
+          // occupant is planned to move away: order after it (checked again below)
+          waits = occMover.path;
+        } else if (af instanceof TFile) {
+          return { kind: "existing", with: af.path };
+        }
+
+        // (3) folder same-name collision (normalized)
+        const folderHit = plannedFolderName.get(`${this.folderKey(t)}::${this.nameKey(t)}`);
+        if (folderHit) return { kind: "planned", tag: "conflict-target-occupied", with: folderHit };
+
+        // (4) global ambiguous-name
+        if (shouldCheckGlobal) {
+          const nk = this.nameKey(t);
+          const plannedHit = plannedName.get(nk);
+          if (plannedHit) return { kind: "planned", tag: "conflict-ambiguous-name", with: plannedHit };
+
+          const exist = existingByName.get(nk) ?? [];
+          const others = exist.filter((p) => normalizePath(p) !== normalizePath(e.path));
+          if (others.length > 0) return { kind: "ambiguous", others };
+        }
+
+        return { kind: "ok", waits };
+      };
+
+      let target = original;
+      let res = probe(target);
+
+      // Conflict resolution: try renamed targets before giving up
+      // (not for files that references outside the scan would lose)
+      const strategy = this.settings.conflictStrategy;
+      if (res.kind !== "ok" && strategy !== "skip" && e.outsideRefs) e.nameKept = true;
+      else if (res.kind !== "ok" && strategy !== "skip") {
+        for (const alt of this.alternativeTargets(e, original, strategy)) {
+          const altRes = probe(alt);
+          if (altRes.kind !== "ok") continue;
+
+          const cause = res.kind === "ambiguous" ? res.others[0] : res.with;
+          e.renamed = {
+            target: alt,
+            reason: `renamed (${strategy}): ${original.split("/").pop() ?? original} clashes with ${cause}`,
+          };
+          target = alt;
+          res = altRes;
+          break;
+        }
+      }
+
+      if (res.kind === "planned") {
+        markBothAndRollback(e, res.with, res.tag);
+        continue;
+      }
+
+      if (res.kind === "existing") {
+        this.ensureConflict(e, "conflict-target-occupied");
+        e.action = { type: "keep" };
+        const occ = map.get(res.with);
+        if (occ && !occ.tags.includes("pinned")) {
+          this.ensureConflict(occ, "conflict-target-occupied");
+          occ.action = { type: "keep" };
+        }
+        continue;
+      }
+
+      if (res.kind === "ambiguous") {
+        this.ensureConflict(e, "conflict-ambiguous-name");
+        // Store what files caused the conflict so user can see
+        // Reason: Users need to know which files have same name to resolve
+        e.conflictWith = res.others.slice(0, 3); // limit to 3 for display
+        e.action = { type: "keep" };
+        continue;
+      }
+
+      if (res.waits) waitsFor.set(e.path, res.waits);
+
+      // success: record planned move
+      const nk = this.nameKey(target);
+      plannedTargets.set(target, e.path);
+      plannedFolderName.set(`${this.folderKey(target)}::${nk}`, e.path);
+      if (shouldCheckGlobal) plannedName.set(nk, e.path);
+    }
+
+    // chains only hold if the occupant really moves; rolling one back can
+    // break the next link of the chain, so repeat until stable.
+    // Same for files following a drawing whose move was rolled back.
+    const plannedByEntry = () => new Map([...plannedTargets].map(([t, ep]) => [ep, t]));
+    let changed = true;
+    while (changed) {
+      changed = false;
+      const planned = plannedByEntry();
+      for (const [ep, occPath] of waitsFor) {
+        if (!planned.has(ep)) {
+          waitsFor.delete(ep);
+          continue;
+        }
+        if (planned.has(occPath)) continue;
+
+        rollbackPlanned(ep, "conflict-target-occupied");
+        const e = map.get(ep);
+        if (e) e.conflictWith = [occPath];
+        waitsFor.delete(ep);
+        changed = true;
+      }
+
+      for (const [ep, used] of followed) {
+        if (!planned.has(ep)) continue;
+        const moved = [...used].filter(([p, at]) => (planned.get(p) ?? p) !== at).map(([p]) => p);
+        if (moved.length === 0) continue;
+
+        rollbackPlanned(ep, "conflict-target-occupied");
+        const e = map.get(ep);
+        if (e) e.conflictWith = moved;
+        followed.delete(ep);
+        changed = true;
+      }
+    }
+
+    const planned = plannedByEntry();
+
+    // copies run first, while every original is still in place
+    const copySteps: MoveStep[] = [];
+    for (const e of candidates) {
+      if (!e.copies || this.isConflict(e)) continue;
+      for (const c of e.copies) copySteps.push({ from: e.path, to: c.target, source: e.path, copy: true });
+    }
+    const steps = [...copySteps, ...orderMoves(planned, waitsFor, (p) => this.tempPathFor(p, plannedTargets))];
+
+    // build preview entries (virtual targets) in execution order
+    const preview: FileEntry[] = [];
+    for (const step of steps) {
+      if (step.temp && step.from === step.source) continue; // first hop of a cycle
+      const e = map.get(step.source);
+      if (!e) continue;
+
+      if (step.copy) {
+        const notes = e.copies?.find((c) => c.target === step.to)?.notes ?? [];
+        preview.push({
+          ...e,
+          path: step.to,
+          displayName: step.to.split("/").pop() ?? step.to,
+          zone: this.zoneOf(step.to),
+          referencedByNotes: e.referencedByNotes.filter((bl) => notes.includes(bl.from)),
+          action: { type: "moveTo", target: step.to, reason: "copy-per-note" },
+          virtualFrom: e.path,
+          isPreview: true,
+          order: preview.length + 1,
+          copyOf: e.path,
+        });
+        continue;
+      }
+
+      const target = planned.get(step.source);
+      if (!target) continue;
+
+      preview.push({
+        ...e,
+        path: target,
+        displayName: target.split("/").pop() ?? target,
+        zone: this.zoneOf(target),
+        virtualFrom: e.path,
+        isPreview: true,
+        order: preview.length + 1,
+        via: step.temp ? step.from : undefined,
+      });
+    }
+
+    return { preview, steps };
+  }
+
+  private isPlannedMover(e: FileEntry): boolean {
+    if (!this.isAttachmentKind(e.kind) || e.tags.includes("missing") || this.isConflict(e)) return false;
+    if (e.action.type !== "moveTo" && e.action.type !== "moveToB") return false;
+    const t = this.targetOf(e);
+    return !!t && normalizePath(t) !== normalizePath(e.path);
+  }
+
+  /** Renamed targets to try for a conflicting move, in order of preference */
+  private alternativeTargets(e: FileEntry, target: string, strategy: ConflictStrategy): string[] {
+    const dir = this.dirname(target);
+    const name = target.split("/").pop() ?? target;
+    const dot = name.lastIndexOf(".");
+    // keep compound extensions like .excalidraw.md together
+    const extStart = e.kind === "attachment-md" ? name.indexOf(".") : dot;
+    const stem = extStart > 0 ? name.slice(0, extStart) : name;
+    const ext = extStart > 0 ? name.slice(extStart) : "";
+
+    let base = stem;
+    const owner = this.ownersOf(e)[0];
+    if (strategy === "note-prefix" && owner) {
+      const note = (owner.from.split("/").pop() ?? "").replace(/\.md$/i, "");
+      const safe = note.replace(/[\\/:*?"<>|#^[\]]/g, "-").trim();
+      if (safe) base = `${safe}-${stem}`;
+    } else if (strategy === "content-hash") {
+      const af = this.app.vault.getAbstractFileByPath(e.path);
+      const hash = af instanceof TFile ? this.hashCache.peek(af) : undefined;
+      if (hash) base = `${stem}-${hash.slice(0, 8)}`;
+    }
+
+    const join = (n: string) => normalizePath(dir ? `${dir}/${n}${ext}` : `${n}${ext}`);
+    const out: string[] = [];
+    if (base !== stem) out.push(join(base));
+    for (let i = 1; i <= 50; i++) out.push(join(`${base}-${i}`));
+    return out;
+  }
+
+  /** Group attachments by content hash; copies get tag "duplicate" + duplicateOf.
+   * Only files sharing a size with another file are hashed.
+   */
+  private async findDuplicates(map: Map<string, FileEntry>): Promise<{ groups: DuplicateGroup[]; hashed: number }> {
+    const bySize = new Map<number, TFile[]>();
+    for (const e of map.values()) {
+      if (e.kind !== "attachment-file" || e.tags.includes("missing")) continue;
+      const af = this.app.vault.getAbstractFileByPath(e.path);
+      if (!(af instanceof TFile) || af.stat.size === 0) continue;
+      const arr = bySize.get(af.stat.size) ?? [];
+      arr.push(af);
+      bySize.set(af.stat.size, arr);
+    }
+
+    let hashed = 0;
+    const byHash = new Map<string, FileEntry[]>();
+    for (const files of bySize.values()) {
+      if (files.length < 2) continue;
+      hashed += await this.hashCache.hashAll(files);
+      for (const f of files) {
+        const h = this.hashCache.peek(f);
+        const e = map.get(f.path);
+        if (!h || !e) continue;
+        const arr = byHash.get(h) ?? [];
+        arr.push(e);
+        byHash.set(h, arr);
+      }
+    }
+
+    // canonical: Workspace first, Staging last, then most referenced, then shortest path
+    const zoneRank: Record<Zone, number> = { A: 0, C: 1, OUT: 2, B: 3 };
+    const groups: DuplicateGroup[] = [];
+    for (const [hash, entries] of byHash) {
+      if (entries.length < 2) continue;
+      entries.sort(
+        (a, b) =>
+          zoneRank[a.zone] - zoneRank[b.zone] ||
+          b.referencedByNotes.length - a.referencedByNotes.length ||
+          a.path.length - b.path.length ||
+          a.path.localeCompare(b.path)
+      );
+      const [canonical, ...copies] = entries;
+      for (const c of copies) {
+        c.duplicateOf = canonical.path;
+        this.ensureTag(c, "duplicate");
+      }
+      groups.push({ hash, canonical: canonical.path, copies: copies.map((c) => c.path) });
+    }
+
+    groups.sort((a, b) => a.canonical.localeCompare(b.canonical));
+    return { groups, hashed };
+  }
+
+  /** Free path for `path`'s file name inside `folder` (numeric suffix if taken) */
+  private uniquePathIn(folder: string, path: string, taken: Set<string>): string {
+    const name = path.split("/").pop() ?? path;
+    const dot = name.lastIndexOf(".");
+    const stem = dot > 0 ? name.slice(0, dot) : name;
+    const ext = dot > 0 ? name.slice(dot) : "";
+
+    for (let i = 0; ; i++) {
+      const candidate = normalizePath(`${folder}/${i === 0 ? name : `${stem}-${i}${ext}`}`);
+      if (!this.app.vault.getAbstractFileByPath(candidate) && !taken.has(candidate)) return candidate;
+    }
+  }
+
+  /** Free temporary path next to `path`, used to break move cycles (swaps) */
+  private tempPathFor(path: string, plannedTargets: Map<string, string>): string {
+    const dir = this.dirname(path);
+    const name = path.split("/").pop() ?? path;
+    const dot = name.lastIndexOf(".");
+    const stem = dot > 0 ? name.slice(0, dot) : name;
+    const ext = dot > 0 ? name.slice(dot) : "";
+
+    for (let i = 1; ; i++) {
+      const candidate = normalizePath(`${dir ? `${dir}/` : ""}${stem}.organizer-swap-${i}${ext}`);
+      if (!this.app.vault.getAbstractFileByPath(candidate) && !plannedTargets.has(candidate)) return candidate;
+    }
+  }
+
+  /** ===== planning ===== */
+
+  /** Plan one attachment's action from its backlinks.
+   * locate: where a referencing file ends up (drawings may move in the same plan)
+   */
+  private planEntry(e: FileEntry, locate: (path: string) => string): void {
+    e.invalidTarget = undefined;
+    e.noteOverride = undefined;
+    e.folderConfig = undefined;
+    e.copies = undefined;
+
+    // on the pin list: left alone, but still counted in stats
+    if (this.pinOf(e.path)) {
+      e.action = { type: "keep" };
+      this.ensureTag(e, "pinned");
+      return;
+    }
+
+    // copies are handled by "merge duplicates", not by the move plan
+    if (e.tags.includes("duplicate")) {
+      e.action = { type: "keep" };
+      return;
+    }
+
+    // Zone B: only plan if referenced (move out); otherwise keep in staging
+    if (e.zone === "B") {
+      if (e.referencedByNotes.length === 0) {
+        e.action = { type: "keep" };
+        return;
+      }
+      // Has references → fall through to normal planning
+    }
+
+    if (e.zone === "OUT" && !this.settings.planOutAttachments) {
+      e.action = { type: "keep" };
+      return;
+    }
+
+    if (e.referencedByNotes.length === 0) {
+      // only notes outside the scope use it: moving it would break them
+      if (e.outsideRefs) {
+        e.action = { type: "keep" };
+        this.ensureTag(e, "outside-scope");
+        return;
+      }
+      e.action = { type: "moveToB", reason: "orphan" };
+      this.ensureTag(e, "orphan");
+      return;
+    }
+
+    // only owning references decide placement; weak ones just keep it from being an orphan
+    const owners = this.ownersOf(e);
+    const n = owners.length;
+
+    if (n === 0) {
+      e.action = { type: "keep" };
+      return;
+    }
+
+    if (n === 1) {
+      const plan = this.planTargetForOneBacklink(e, owners[0], locate);
+      e.action = this.withPlannedName(e, plan);
+      return;
+    }
+
+    // n > 1
+    const plan = this.planTargetForMultiBacklink(e, owners, locate);
+    e.action = this.withPlannedName(e, plan);
+  }
+
+  /** Apply the naming template's name to a plan; files that stay put are renamed in place */
+  private withPlannedName(e: FileEntry, plan: Action | null): Action {
+    if (!e.plannedName) return plan ?? { type: "keep" };
+    if (e.invalidTarget || e.noteOverride?.value === "keep") return { type: "keep" };
+
+    if (plan && plan.type === "moveTo") {
+      const folder = this.dirname(plan.target);
+      return {
+        ...plan,
+        target: normalizePath(folder ? `${folder}/${e.plannedName}` : e.plannedName),
+        reason: `${plan.reason} + naming-template`,
+      };
+    }
+
+    const folder = this.dirname(e.path);
+    return {
+      type: "moveTo",
+      target: normalizePath(folder ? `${folder}/${e.plannedName}` : e.plannedName),
+      reason: "naming-template",
+    };
+  }
 
-      const target = this.targetOf(e);
-      if (!target) {
-        e.action = { type: "keep" };
-        continue;
-      }
-      if (normalizePath(target) === normalizePath(e.path)) {
-        e.action = { type: "keep" };
-        continue;
-      }
+  /** Pick template names for attachments matching the naming rule.
+   * Owner = first referencing note; indices count up per note in link order and
+   * skip names already taken in the target folder. Returns true if any name was set.
+   */
+  private assignPlannedNames(map: Map<string, FileEntry>): boolean {
+    const { template, match } = this.settings.naming;
+    if (validateNameTemplate(template)) return false;
+
+    let re: RegExp | null = null;
+    try {
+      re = match.trim() ? new RegExp(match.trim(), "i") : null;
+    } catch {
+      return false;
+    }
 
-      const explicitMove = e.action.type === "moveTo" && !!e.action.explicit;
+    // eligible files grouped by owning note
+    const byNote = new Map<string, { e: FileEntry; bl: Backlink }[]>();
+    for (const e of map.values()) {
+      e.plannedName = undefined;
+      if (!this.isAttachmentKind(e.kind) || e.tags.includes("missing") || e.tags.includes("duplicate")) continue;
+      if (e.tags.includes("pinned")) continue;
+      const bl = this.ownersOf(e)[0];
+      if (!bl || e.action.type === "moveToB" || e.copies) continue;
+      if (e.zone === "OUT" && !this.settings.planOutAttachments) continue;
 
-      // (1) target path collision with planned target
-      const occupiedBy = plannedTargets.get(target);
-      if (occupiedBy) {
-        markBothAndRollback(e, occupiedBy, "conflict-target-occupied");
+      const name = e.path.split("/").pop() ?? e.path;
+      if (re && !re.test(name)) continue;
+      // links the scan never read can't be rewritten
+      if (e.outsideRefs) {
+        e.nameKept = true;
         continue;
       }
 
-      // (2) existing file occupies target
-      const af = this.app.vault.getAbstractFileByPath(target);
-      if (af instanceof TFile) {
-        this.ensureConflict(e, "conflict-target-occupied");
-        e.action = { type: "keep" };
-        const occ = map.get(af.path);
-        if (occ) {
-          this.ensureConflict(occ, "conflict-target-occupied");
-          occ.action = { type: "keep" };
+      const arr = byNote.get(bl.from) ?? [];
+      arr.push({ e, bl });
+      byNote.set(bl.from, arr);
+    }
+    if (byNote.size === 0) return false;
+
+    const renaming = new Set<string>();
+    for (const items of byNote.values()) for (const { e } of items) renaming.add(e.path);
+
+    // names taken per folder: files that stay + names handed out so far
+    const taken = new Map<string, Set<string>>();
+    const takenIn = (folder: string) => {
+      let set = taken.get(folder);
+      if (!set) {
+        set = new Set<string>();
+        const f = folder ? this.getFolder(folder) : this.app.vault.getRoot();
+        for (const child of f?.children ?? []) {
+          if (!renaming.has(child.path)) set.add(child.name.toLowerCase());
         }
-        continue;
-      }
-
-      // (3) folder same-name collision (normalized)
-      const fk = this.folderKey(target);
-      const nk = this.nameKey(target);
-      const folderNameKey = `${fk}::${nk}`;
-      const folderHit = plannedFolderName.get(folderNameKey);
-      if (folderHit) {
-        markBothAndRollback(e, folderHit, "conflict-target-occupied");
-        continue;
+        taken.set(folder, set);
       }
+      return set;
+    };
 
-      // (4) global ambiguous-name
-      const gmode = this.settings.globalNameCheck;
-      const shouldCheckGlobal = gmode !== "off" && (gmode === "on-even-explicit" || !explicitMove);
-
-      if (shouldCheckGlobal) {
-        const plannedHit = plannedName.get(nk);
-        if (plannedHit) {
-          markBothAndRollback(e, plannedHit, "conflict-ambiguous-name");
-          continue;
+    let any = false;
+    for (const [notePath, items] of [...byNote].sort((a, b) => a[0].localeCompare(b[0]))) {
+      items.sort((a, b) => (a.bl.offset ?? -1) - (b.bl.offset ?? -1) || a.e.path.localeCompare(b.e.path));
+
+      const noteFile = notePath.split("/").pop() ?? notePath;
+      const noteDot = noteFile.lastIndexOf(".");
+      const noteName = noteDot > 0 ? noteFile.slice(0, noteDot) : noteFile;
+      const usesIndex = template.includes("index");
+
+      let index = 1;
+      for (const { e, bl } of items) {
+        const name = e.path.split("/").pop() ?? e.path;
+        // keep compound extensions like .excalidraw.md together
+        const extStart = e.kind === "attachment-md" ? name.indexOf(".") : name.lastIndexOf(".");
+        const basename = extStart > 0 ? name.slice(0, extStart) : name;
+        const ext = extStart > 0 ? name.slice(extStart) : "";
+
+        const folder = this.dirname(e.action.type === "moveTo" ? e.action.target : e.path);
+        const used = takenIn(folder);
+
+        let picked: string | null = null;
+        for (let attempt = 0; attempt < 1000 && picked === null; attempt++) {
+          const stem = renderNameTemplate(template, { noteName, index, alt: bl.alt ?? "", basename });
+          if (stem === null) break;
+
+          const candidate = `${usesIndex || attempt === 0 ? stem : `${stem}-${attempt + 1}`}${ext}`;
+          if (usesIndex) index++;
+          if (!used.has(candidate.toLowerCase())) picked = candidate;
         }
+        if (picked === null) continue;
 
-        const exist = existingByName.get(nk) ?? [];
-        const others = exist.filter((p) => normalizePath(p) !== normalizePath(e.path));
-        if (others.length > 0) {
-          this.ensureConflict(e, "conflict-ambiguous-name");
-          // Store what files caused the conflict so user can see
-          // Reason: Users need to know which files have same name to resolve
-          e.conflictWith = others.slice(0, 3); // limit to 3 for display
-          e.action = { type: "keep" };
-          continue;
+        used.add(picked.toLowerCase());
+        if (picked !== name) {
+          e.plannedName = picked;
+          any = true;
         }
       }
+    }
+    return any;
+  }
 
-      // success: record planned move
-      plannedTargets.set(target, e.path);
-      plannedFolderName.set(folderNameKey, e.path);
-      if (shouldCheckGlobal) plannedName.set(nk, e.path);
-
-      // build preview entry (virtual target)
-      preview.push({
-        ...e,
-        path: target,
-        displayName: target.split("/").pop() ?? target,
-        zone: this.zoneOf(target),
-        virtualFrom: e.path,
-        isPreview: true,
-      });
+  /** Pin list entry (file or folder) covering `path`; null when not pinned */
+  private pinOf(path: string): string | null {
+    const p = normalizePath(path);
+    for (const raw of this.settings.pinned) {
+      if (!raw.trim()) continue;
+      const pin = normalizePath(raw.trim());
+      if (p === pin || p.startsWith(`${pin}/`)) return pin;
     }
+    return null;
+  }
 
-    return preview;
+  /** Pin `path`, or remove the pin that covers it */
+  private async togglePin(path: string): Promise<void> {
+    const pin = this.pinOf(path);
+    this.settings.pinned = pin
+      ? this.settings.pinned.filter((x) => normalizePath(x.trim()) !== pin)
+      : [...this.settings.pinned, normalizePath(path)];
+    await this.saveSettings();
   }
 
-  /** ===== planning ===== */
-  private planTargetForOneBacklink(e: FileEntry, bl: Backlink): Action | null {
-    const name = e.path.split("/").pop() ?? e.path;
+  /** Whether a reference of this type lets its note decide the file's placement */
+  private confersOwnership(bl: Backlink): boolean {
+    if (bl.excludedSource) return false;
+    return this.settings.ownership[bl.source] ?? true;
+  }
+
+  /** References that decide placement (the rest only keep the file from being an orphan) */
+  private ownersOf(e: FileEntry): Backlink[] {
+    return e.referencedByNotes.filter((bl) => this.confersOwnership(bl));
+  }
+
+  private planTargetForOneBacklink(e: FileEntry, bl: Backlink, locate: (path: string) => string): Action | null {
+    // pinned by the note > explicit > note override > rules > policy > keep
+    if (this.noteOverrideOf(bl.from) === "keep") {
+      e.noteOverride = { note: bl.from, value: "keep" };
+      return null;
+    }
 
-    // explicit > policy > keep
     if (bl.explicitPath) {
       return {
         type: "moveTo",
@@ -807,52 +2585,229 @@ export default class KPlugin extends Plugin {
       };
     }
 
-    const baseFolder = this.dirname(bl.from);
-    const targetFolder = this.targetFolderFromPolicy(baseFolder);
-    if (targetFolder === null) return null;
-
-    return {
-      type: "moveTo",
-      target: normalizePath(targetFolder ? `${targetFolder}/${name}` : name),
-      reason: "single-backlink-policy",
-    };
+    const noteFolder = this.dirname(locate(bl.from));
+    return this.placeByPolicy(e, noteFolder, bl.from, noteFolder, "single-backlink-policy");
   }
 
-  private planTargetForMultiBacklink(e: FileEntry): Action | null {
-    const bls = e.referencedByNotes;
+  private planTargetForMultiBacklink(e: FileEntry, bls: Backlink[], locate: (path: string) => string): Action | null {
     if (bls.length < 2) return null;
 
-    const policy = this.settings.multiBacklinkPolicy;
+    // any referencing note can pin a shared attachment
+    const pinning = bls.find((x) => this.noteOverrideOf(x.from) === "keep");
+    if (pinning) {
+      e.noteOverride = { note: pinning.from, value: "keep" };
+      return null;
+    }
+
+    const policy = this.folderSettingsFor(e, this.dirname(bls[0].from), "multiBacklinkPolicy").multiBacklinkPolicy;
     if (policy === "unchanged") return null;
 
-    const name = e.path.split("/").pop() ?? e.path;
+    // one owning note: placed like a single backlink from that note
+    const placeWithNote = (bl: Backlink, reason: string) => {
+      const folder = this.dirname(locate(bl.from));
+      return this.placeByPolicy(e, folder, bl.from, folder, reason);
+    };
+
+    // ties are broken by note path so the plan doesn't depend on cache order
+    const byPath = [...bls].sort((a, b) => a.from.localeCompare(b.from));
+    const depthOf = (path: string) => path.split("/").filter(Boolean).length;
 
-    if (policy === "pick-first") {
-      const baseFolder = this.dirname(bls[0].from);
-      const targetFolder = this.targetFolderFromPolicy(baseFolder);
-      if (targetFolder === null) return null;
+    if (policy === "pick-first") return placeWithNote(bls[0], "multi-pick-first");
+
+    if (policy === "shallowest-note") {
+      const pick = byPath.reduce((best, x) => (depthOf(locate(x.from)) < depthOf(locate(best.from)) ? x : best));
+      return placeWithNote(pick, "multi-shallowest-note");
+    }
+
+    if (policy === "most-recent-note") {
+      const mtime = (path: string) => {
+        const af = this.app.vault.getAbstractFileByPath(path);
+        return af instanceof TFile ? af.stat.mtime : 0;
+      };
+      const pick = byPath.reduce((best, x) => (mtime(x.from) > mtime(best.from) ? x : best));
+      return placeWithNote(pick, "multi-most-recent-note");
+    }
+
+    if (policy === "majority") {
+      const counts = new Map<string, number>();
+      for (const x of bls) {
+        const f = this.dirname(locate(x.from));
+        counts.set(f, (counts.get(f) ?? 0) + 1);
+      }
+      // most notes, then shallowest folder, then alphabetical
+      const folder = [...counts.keys()].sort(
+        (a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0) || depthOf(a) - depthOf(b) || a.localeCompare(b)
+      )[0];
+      const owner = byPath.find((x) => this.dirname(locate(x.from)) === folder) ?? byPath[0];
+      return this.placeByPolicy(e, folder, owner.from, folder, "multi-majority");
+    }
+
+    if (policy === "copy-per-note") return this.planCopiesPerNote(e, byPath, (bl) => placeWithNote(bl, "copy-per-note"));
+
+    if (policy === "shared-pool") {
+      const pool = normalizePath(this.settings.sharedPoolFolder || "");
+      const name = e.path.split("/").pop() ?? e.path;
       return {
         type: "moveTo",
-        target: normalizePath(targetFolder ? `${targetFolder}/${name}` : name),
-        reason: "multi-pick-first",
+        target: normalizePath(pool ? `${pool}/${name}` : name),
+        reason: "multi-shared-pool",
       };
     }
 
     // policy === "lca"
-    const folders = bls.map((x) => this.dirname(x.from));
+    const folders = bls.map((x) => this.dirname(locate(x.from)));
     const lca = this.lcaFolder(folders);
-    const targetFolder = this.targetFolderFromPolicy(lca);
+    return this.placeByPolicy(e, lca, bls[0].from, this.dirname(locate(bls[0].from)), "multi-lca");
+  }
+
+  /** One copy per target folder of the owning notes; each note is relinked
+   * to its own copy and the original goes to staging. Notes whose target is where
+   * the file already is keep the original (no staging move then). When any note's
+   * target is illegal there are no copies at all: the file shows as a conflict.
+   */
+  private planCopiesPerNote(e: FileEntry, bls: Backlink[], place: (bl: Backlink) => Action | null): Action | null {
+    const groups = new Map<string, string[]>(); // target -> notes
+    for (const bl of bls) {
+      const plan = place(bl);
+      const target = plan?.type === "moveTo" ? normalizePath(plan.target) : e.path;
+      const notes = groups.get(target) ?? [];
+      notes.push(bl.from);
+      groups.set(target, notes);
+    }
+    // one note's override/template is illegal: the file stays put for every note
+    if (e.invalidTarget) return null;
+
+    // all notes agree: a plain move, no copies needed
+    if (groups.size === 1) {
+      const [target] = [...groups.keys()];
+      return target === e.path ? null : { type: "moveTo", target, reason: "copy-per-note (one folder)" };
+    }
+
+    e.copies = [...groups]
+      .filter(([target]) => target !== e.path)
+      .map(([target, notes]) => ({ target, notes }))
+      .sort((a, b) => a.target.localeCompare(b.target));
+    // weak (non-owning) references keep pointing at the original
+    if (groups.has(e.path) || e.referencedByNotes.length > bls.length) return null;
+    return { type: "moveToB", reason: "copy-per-note" };
+  }
+
+  /** Move into the policy folder. A note override (path / template) wins over placement
+   * rules; the first matching rule wins over the global policy.
+   */
+  private placeByPolicy(e: FileEntry, baseFolder: string, notePath: string, noteFolder: string, reason: string): Action | null {
+    const override = this.noteOverrideOf(notePath);
+    if (override) {
+      const folder = this.overrideFolder(override, e, notePath, noteFolder);
+      if (folder === null) return null;
+
+      e.noteOverride = { note: notePath, value: override };
+      const name = e.path.split("/").pop() ?? e.path;
+      return {
+        type: "moveTo",
+        target: normalizePath(folder ? `${folder}/${name}` : name),
+        reason: `${reason} (note override)`,
+      };
+    }
+
+    const rule = this.matchPlacementRule(e, notePath);
+    const placement = rule?.placement ?? this.folderSettingsFor(e, this.dirname(notePath), "placement.").placement;
+    const targetFolder = this.targetFolderFromPolicy(baseFolder, e, notePath, placement);
     if (targetFolder === null) return null;
 
+    const name = e.path.split("/").pop() ?? e.path;
     return {
       type: "moveTo",
       target: normalizePath(targetFolder ? `${targetFolder}/${name}` : name),
-      reason: "multi-lca",
+      reason: rule ? `${reason} (rule: ${rule.name || `#${this.settings.placementRules.indexOf(rule) + 1}`})` : reason,
     };
   }
 
-  private targetFolderFromPolicy(baseFolder: string): string | null {
-    const p = this.settings.placement;
+  /** Settings for `folder` after folder config overrides.
+   * Records on the entry which config files changed the setting(s) named by `used`
+   * (a key, or a prefix like "placement.").
+   */
+  private folderSettingsFor(e: FileEntry, folder: string, used: string): ResolvedFolderSettings {
+    const res = this.folderConfigs.resolve(folder, {
+      placement: this.settings.placement,
+      multiBacklinkPolicy: this.settings.multiBacklinkPolicy,
+      globalNameCheck: this.settings.globalNameCheck,
+    });
+
+    const keys = res.keys.filter((k) => k === used || k.startsWith(used));
+    if (keys.length > 0) {
+      const prev = e.folderConfig ?? { sources: [], keys: [] };
+      e.folderConfig = {
+        sources: [...new Set([...prev.sources, ...res.sources])],
+        keys: [...new Set([...prev.keys, ...keys])],
+      };
+    }
+    return res;
+  }
+
+  /** Value of the note's override property ("keep" normalized to lowercase); null if unset */
+  private noteOverrideOf(notePath: string): string | null {
+    const key = this.settings.noteOverrideKey.trim().toLowerCase();
+    if (!key) return null;
+
+    const note = this.app.vault.getAbstractFileByPath(notePath);
+    const fm = note instanceof TFile ? this.app.metadataCache.getFileCache(note)?.frontmatter : undefined;
+    if (!fm) return null;
+
+    const k = Object.keys(fm).find((x) => x.toLowerCase() === key);
+    const v: unknown = k === undefined ? undefined : fm[k];
+    if (typeof v !== "string" || !v.trim()) return null;
+    return v.trim().toLowerCase() === "keep" ? "keep" : v.trim();
+  }
+
+  /** Folder for an override value: a template (${...}) renders to a vault path;
+   * a plain path is relative to the note's folder unless it starts with "/".
+   * Illegal values (".." segments, characters a folder can't hold) are recorded on the entry (null).
+   */
+  private overrideFolder(value: string, e: FileEntry, notePath: string, noteFolder: string): string | null {
+    if (value.includes("${")) {
+      const p: PlacementPolicy = { ...this.settings.placement, mode: "template", template: value };
+      const folder = this.targetFolderFromPolicy(noteFolder, e, notePath, p);
+      if (folder === null && e.invalidTarget) e.invalidTarget = `note override in ${notePath}: ${e.invalidTarget}`;
+      return folder;
+    }
+
+    const raw = value.replace(/\\/g, "/");
+    const err = folderPathError(raw);
+    if (err) {
+      e.invalidTarget = `note override in ${notePath}: ${err}`;
+      return null;
+    }
+    const parts = raw.startsWith("/") ? [] : noteFolder.split("/").filter(Boolean);
+    for (const seg of raw.split("/")) {
+      if (seg.trim()) parts.push(seg.trim());
+    }
+    return normalizePath(parts.join("/"));
+  }
+
+  private matchPlacementRule(e: FileEntry, notePath: string): PlacementRule | null {
+    const rules = this.settings.placementRules;
+    if (rules.length === 0) return null;
+
+    const af = this.app.vault.getAbstractFileByPath(e.path);
+    const note = this.app.vault.getAbstractFileByPath(notePath);
+    const cache = note instanceof TFile ? this.app.metadataCache.getFileCache(note) : null;
+    const name = e.path.split("/").pop() ?? e.path;
+    const dot = name.lastIndexOf(".");
+
+    return matchPlacementRule(rules, {
+      ext: dot > 0 ? name.slice(dot + 1).toLowerCase() : "",
+      noteFolder: this.dirname(notePath),
+      noteTags: (cache ? getAllTags(cache) ?? [] : []).map((t) => t.replace(/^#/, "")),
+      size: af instanceof TFile ? af.stat.size : 0,
+      zone: e.zone,
+    });
+  }
+
+  /** Target folder for `e`, owned by the note at `notePath` (placed in `baseFolder`).
+   * An illegal template result is recorded on the entry and yields null (keep).
+   */
+  private targetFolderFromPolicy(baseFolder: string, e: FileEntry, notePath: string, p: PlacementPolicy): string | null {
     if (p.mode === "vault-folder") return "";
     if (p.mode === "specified-folder") return normalizePath(p.specifiedFolder || "");
     if (p.mode === "same-folder-as-note") return normalizePath(baseFolder || "");
@@ -861,10 +2816,35 @@ export default class KPlugin extends Plugin {
       if (!sub) return normalizePath(baseFolder || "");
       return normalizePath(baseFolder ? `${baseFolder}/${sub}` : sub);
     }
+    if (p.mode === "template") {
+      const af = this.app.vault.getAbstractFileByPath(e.path);
+      const note = this.app.vault.getAbstractFileByPath(notePath);
+      const fileName = e.path.split("/").pop() ?? e.path;
+      const noteName = notePath.split("/").pop() ?? notePath;
+      const dot = fileName.lastIndexOf(".");
+      const noteDot = noteName.lastIndexOf(".");
+
+      const res = renderPlacementTemplate(p.template, {
+        noteName: noteDot > 0 ? noteName.slice(0, noteDot) : noteName,
+        noteFolder: baseFolder,
+        frontmatter: note instanceof TFile ? this.app.metadataCache.getFileCache(note)?.frontmatter : undefined,
+        ext: dot > 0 ? fileName.slice(dot + 1) : "",
+        basename: dot > 0 ? fileName.slice(0, dot) : fileName,
+        mtime: af instanceof TFile ? af.stat.mtime : Date.now(),
+        zone: e.zone,
+      });
+      if ("error" in res) {
+        e.invalidTarget = res.error;
+        return null;
+      }
+      return normalizePath(res.folder);
+    }
     return null;
   }
 
+  /** Where a planned move ends up; a conflict rename (e.renamed) wins, as in the preview and apply */
   private targetOf(e: FileEntry): string | null {
+    if (e.renamed && (e.action.type === "moveTo" || e.action.type === "moveToB")) return normalizePath(e.renamed.target);
     if (e.action.type === "moveTo") return normalizePath(e.action.target);
     if (e.action.type === "moveToB") {
       const b = normalizePath(this.settings.zoneB || "");
@@ -927,9 +2907,113 @@ export default class KPlugin extends Plugin {
     return out;
   }
 
+  /** Record which files reference attachments from any source the scan did not
+   * count: notes outside the backlink scope, drawings when attachment notes are
+   * not a link source, switched-off link types, frontmatter path values and
+   * extractor matches anywhere in the vault.
+   * Reason: unreferenced files look like orphans, and moving them to staging would
+   * break references the scan never read; renaming a referenced file would too
+   * (its links are only rewritten in the notes the scan counted).
+   */
+  private async findOutsideScopeRefs(map: Map<string, FileEntry>): Promise<void> {
+    const isAttachment = (e: FileEntry | undefined): e is FileEntry =>
+      !!e && this.isAttachmentKind(e.kind) && !e.tags.includes("missing");
+    // referenced files only need this when they may be renamed (links by name would break)
+    const renames = this.settings.naming.enabled || this.settings.conflictStrategy !== "skip";
+    const needed = (e: FileEntry | undefined): e is FileEntry =>
+      isAttachment(e) && (renames || e.referencedByNotes.length === 0);
+    if (![...map.values()].some(needed)) return;
+
+    const add = (path: string, from: string) => {
+      const e = map.get(normalizePath(path));
+      if (!needed(e) || e.path === from) return;
+      if (e.referencedByNotes.some((bl) => bl.from === from)) return;
+      if (!e.outsideRefs) e.outsideRefs = [];
+      if (!e.outsideRefs.includes(from)) e.outsideRefs.push(from);
+    };
+    const addRaw = (raw: string, from: string) => {
+      const parsed = this.parseLink(raw);
+      if (!parsed || !parsed.cleanedFilePart || this.isExternal(parsed.cleanedFilePart)) return;
+      const { dest } = this.resolveLinkTarget(parsed.cleanedFilePart, from);
+      if (dest) add(dest.path, from);
+    };
+
+    // links, embeds and frontmatter links of every markdown file
+    const resolved = this.app.metadataCache.resolvedLinks;
+    for (const from of Object.keys(resolved)) {
+      for (const to of Object.keys(resolved[from])) add(to, from);
+    }
+
+    for (const md of this.app.vault.getMarkdownFiles()) {
+      for (const raw of this.frontmatterPathValues(this.app.metadataCache.getFileCache(md)?.frontmatter)) addRaw(raw, md.path);
+    }
+
+    for (const canvas of this.app.vault.getFiles()) {
+      if (canvas.extension !== "canvas") continue;
+      try {
+        for (const ref of await this.canvasRefs.refsOf(canvas)) add(ref, canvas.path);
+      } catch {
+        // unreadable canvas: nothing to protect
+      }
+    }
+
+    const extractors = this.extractorRegistry.enabled(this.settings.extractors);
+    if (extractors.length === 0) return;
+    const exts = new Set<string>();
+    for (const x of extractors) for (const ext of x.extensions ?? ["md"]) exts.add(ext.toLowerCase());
+    for (const file of this.app.vault.getFiles()) {
+      if (!exts.has(file.extension.toLowerCase())) continue;
+      try {
+        for (const refs of (await this.extractorRegistry.refsOf(file, extractors)).values()) {
+          for (const ref of refs) addRaw(ref.raw, file.path);
+        }
+      } catch {
+        // unreadable file: nothing to protect
+      }
+    }
+  }
+
+  /** Why include/exclude patterns leave a file out (null = scanned).
+   * Include patterns only narrow attachments. Excluded reference sources are still
+   * read, but their references only protect (Backlink.excludedSource).
+   */
+  private excludedReason(path: string, asAttachment: boolean): string | null {
+    return this.pathFilter.reasonFor(path, asAttachment);
+  }
+
+  private listCanvasesByScope(): TFile[] {
+    const canvases = this.app.vault
+      .getFiles()
+      .filter((f) => f.extension === "canvas");
+
+    if (this.settings.backlinkScope === "whole-vault") return canvases;
+    return canvases.filter((f) => this.zoneOf(f.path) === "A");
+  }
+
+  /** Files read by extractors: notes (as for links) plus other extensions they ask for */
+  private listExtractorSourcesByScope(extractors: ReferenceExtractor[]): TFile[] {
+    const exts = new Set<string>();
+    for (const x of extractors) for (const ext of x.extensions ?? ["md"]) exts.add(ext.toLowerCase());
+
+    const out = exts.has("md") ? this.listNotesByScope() : [];
+    exts.delete("md");
+    if (exts.size === 0) return out;
+
+    const others = this.app.vault
+      .getFiles()
+      .filter((f) => exts.has(f.extension.toLowerCase()));
+    if (this.settings.backlinkScope === "whole-vault") return [...out, ...others];
+    return [...out, ...others.filter((f) => this.zoneOf(f.path) === "A")];
+  }
+
+  /** Markdown files scanned for links: notes, plus attachment-md (drawings) when enabled.
+   * Excluded notes are read too: their references keep files from being orphans
+   * (see Backlink.excludedSource) but never decide placement.
+   */
   private listNotesByScope(): TFile[] {
     const allMd = this.app.vault.getMarkdownFiles();
-    const notes = allMd.filter((f) => this.isNoteMd(f.path));
+    const withAttachmentMd = this.settings.linkSources.attachmentMd;
+    const notes = allMd.filter((f) => this.isNoteMd(f.path) || (withAttachmentMd && this.isAttachmentMd(f.path)));
 
     if (this.settings.backlinkScope === "whole-vault") return notes;
     return notes.filter((f) => this.zoneOf(f.path) === "A");
@@ -937,20 +3021,12 @@ export default class KPlugin extends Plugin {
 
   /** ===== helpers ===== */
   private compileAttachmentRules() {
-    const lines = (this.settings.attachmentRulesText || "")
-      .split("\n")
-      .map((s) => s.trim())
-      .filter(Boolean);
-
-    const compiled: RegExp[] = [];
-    for (const rule of lines) {
-      try {
-        compiled.push(new RegExp(rule, "i"));
-      } catch {
-        new Notice(`Invalid attachment rule regex: ${rule}`);
-      }
+    const { rules, errors } = parseAttachmentRules(this.settings.attachmentRulesText || "");
+    for (const rule of errors) {
+      new Notice(`Invalid attachment rule regex: ${rule}`);
     }
-    this.attachmentRules = compiled;
+    this.attachmentRules = rules;
+    this.pathFilter = new PathFilter(this.settings.includeGlobs, this.settings.excludeGlobs);
   }
 
   private zoneOf(path: string): Zone {
@@ -974,6 +3050,16 @@ export default class KPlugin extends Plugin {
     return "OUT";
   }
 
+  /** In the staging folder of any workspace profile */
+  private inStagingFolder(path: string): boolean {
+    const p = normalizePath(path);
+    const folders = [this.settings.zoneB, ...this.settings.profiles.map((x) => x.zoneB)];
+    return folders.some((f) => {
+      const b = normalizePath(f || "");
+      return !!b && b !== "/" && (p === b || p.startsWith(b + "/"));
+    });
+  }
+
   private kindOf(path: string): FileKind {
     const p = path.toLowerCase();
     if (p.endsWith(".md")) return this.isAttachmentMd(path) ? "attachment-md" : "note-md";
@@ -985,9 +3071,18 @@ export default class KPlugin extends Plugin {
   }
 
   private isAttachmentMd(path: string): boolean {
+    return this.attachmentRuleFor(path) !== null;
+  }
+
+  /** The attachment rule that classifies a .md file as an attachment (null = note) */
+  private attachmentRuleFor(path: string): AttachmentRule | null {
     const p = normalizePath(path);
-    if (!p.toLowerCase().endsWith(".md")) return false;
-    return this.attachmentRules.some((r) => r.test(p));
+    if (!p.toLowerCase().endsWith(".md")) return null;
+
+    const af = this.app.vault.getAbstractFileByPath(p);
+    const cache = af instanceof TFile ? this.app.metadataCache.getFileCache(af) : null;
+    const tags = (cache ? getAllTags(cache) ?? [] : []).map((t) => t.replace(/^#/, ""));
+    return matchAttachmentRule(this.attachmentRules, p, cache?.frontmatter, tags);
   }
 
   private isNoteMd(path: string): boolean {
@@ -1025,6 +3120,29 @@ export default class KPlugin extends Plugin {
     return s.startsWith("http://") || s.startsWith("https://") || s.startsWith("mailto:") || s.startsWith("file://");
   }
 
+  /** Plain-path values of the configured property keys (cover: images/cover.png).
+   * Wiki/markdown links are skipped: Obsidian already reports them as frontmatter links.
+   */
+  private frontmatterPathValues(fm: Record<string, unknown> | undefined): string[] {
+    const keys = new Set(this.settings.frontmatterPathKeys.map((k) => k.trim().toLowerCase()).filter(Boolean));
+    if (!fm || keys.size === 0) return [];
+
+    const out: string[] = [];
+    for (const key of Object.keys(fm)) {
+      if (!keys.has(key.toLowerCase())) continue;
+
+      const value = fm[key];
+      for (const item of Array.isArray(value) ? (value as unknown[]) : [value]) {
+        if (typeof item !== "string") continue;
+        const raw = item.trim();
+        if (!raw || raw.startsWith("[[") || raw.includes("](")) continue;
+        if (this.isExternal(raw)) continue;
+        out.push(raw);
+      }
+    }
+    return out;
+  }
+
   /** parse raw link -> file-part (no alias/#/^/?) */
   private parseLink(raw: string): { cleanedFilePart: string } | null {
     let s = (raw ?? "").trim();
@@ -1070,6 +3188,37 @@ export default class KPlugin extends Plugin {
     return normalizePath(s);
   }
 
+  /** Resolve a cleaned link file-part to a vault file (+ desired explicit path)
+   * 1) if explicitDesired exists => dest is that file
+   * 2) else try Obsidian resolver on cleanedFilePart
+   * 3) if still not found but explicitDesired exists: try basename fallback (so we can move it to explicit path)
+   */
+  private resolveLinkTarget(cleanedFilePart: string, from: string): { dest: TFile | null; explicitDesired?: string } {
+    const isExplicit = cleanedFilePart.includes("/");
+
+    const explicitDesired = isExplicit
+      ? this.normalizeExplicitToVaultPath(cleanedFilePart, from)
+      : undefined;
+
+    let dest: TFile | null = null;
+
+    if (explicitDesired) {
+      const af = this.app.vault.getAbstractFileByPath(explicitDesired);
+      if (af instanceof TFile) dest = af;
+    }
+
+    if (!dest) {
+      dest = this.resolveToFileByObsidian(cleanedFilePart, from);
+
+      if (!dest && explicitDesired) {
+        const base = explicitDesired.split("/").pop() ?? explicitDesired;
+        dest = this.resolveToFileByObsidian(base, from);
+      }
+    }
+
+    return { dest, explicitDesired };
+  }
+
   private resolveToFileByObsidian(linkKey: string, fromMdPath: string): TFile | null {
     let dest = this.app.metadataCache.getFirstLinkpathDest(linkKey, fromMdPath);
     if (dest instanceof TFile) return dest;
@@ -1091,21 +3240,28 @@ export default class KPlugin extends Plugin {
   }
 
   private ensureConflict(e: FileEntry, tag: string) {
-    if (tag !== "conflict-target-occupied" && tag !== "conflict-ambiguous-name") {
+    if (tag !== "conflict-target-occupied" && tag !== "conflict-ambiguous-name" && tag !== "conflict-invalid-target") {
       tag = "conflict-target-occupied";
     }
     this.ensureTag(e, tag);
   }
 
   private isConflict(e: FileEntry): boolean {
-    return e.tags.includes("conflict-target-occupied") || e.tags.includes("conflict-ambiguous-name");
+    return (
+      e.tags.includes("conflict-target-occupied") ||
+      e.tags.includes("conflict-ambiguous-name") ||
+      e.tags.includes("conflict-invalid-target")
+    );
   }
 
-  // mark rules (final): - K B R M C
-  private markOf(e: FileEntry): "-" | "K" | "B" | "R" | "M" | "C" {
+  // mark rules (final): - K B R M C D
+  private markOf(e: FileEntry): "-" | "K" | "B" | "R" | "M" | "C" | "D" | "O" | "P" {
     if (e.kind === "note-md") return "-";
     if (e.tags.includes("missing")) return "M";
+    if (e.tags.includes("pinned")) return "P";
     if (this.isConflict(e)) return "C";
+    if (e.tags.includes("duplicate")) return "D";
+    if (e.tags.includes("outside-scope")) return "O";
     if (e.action.type === "keep") return "K";
     if (e.action.type === "moveTo") return "R";
     return "B";
@@ -1160,30 +3316,280 @@ export default class KPlugin extends Plugin {
     }
   }
 
-  private async loadSettings(): Promise<void> {
-    const loaded = (await this.loadData()) as Record<string, unknown> | null;
-    this.settings = Object.assign({}, DEFAULT_SETTINGS, loaded);
+  /** Save settings plus the undo journal into the plugin data file */
+  private async persistData(): Promise<void> {
+    const data: PluginData = {
+      ...this.settings,
+      // never persist a profile that is only swapped in for one run
+      ...(this.tempProfile ? this.tempProfile.held : {}),
+      undoJournal: this.undoHistory,
+      pendingBatches: this.pendingBatches,
+      stagingLog: this.stagingLog.toJSON((p) => this.app.vault.getAbstractFileByPath(p) instanceof TFile),
+    };
+    await this.saveData(data);
+  }
+
+  private hashCachePath(): string {
+    return normalizePath(`${this.manifest.dir ?? ""}/${HASH_CACHE_FILE}`);
+  }
+
+  /** Read the hash cache file; `legacy` is the cache older versions kept in data.json */
+  private async loadHashCache(legacy: Record<string, HashRecord> | undefined): Promise<void> {
+    const adapter = this.app.vault.adapter;
+    const path = this.hashCachePath();
+    try {
+      if (await adapter.exists(path)) {
+        this.hashCache.load(JSON.parse(await adapter.read(path)) as Record<string, HashRecord>);
+        return;
+      }
+    } catch {
+      // unreadable cache: hashes are computed again
+    }
+    this.hashCache.load(legacy);
+    if (legacy) await this.saveHashCache();
+  }
+
+  private async saveHashCache(): Promise<void> {
+    const records = this.hashCache.toJSON((p) => this.app.vault.getAbstractFileByPath(p) instanceof TFile);
+    try {
+      await this.app.vault.adapter.write(this.hashCachePath(), JSON.stringify(records));
+    } catch {
+      // a lost cache only costs re-hashing
+    }
+  }
+
+  private newUndoId(): string {
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+
+  private async loadSettings(): Promise<void> {
+    const loaded = (await this.loadData()) as Record<string, unknown> | null;
+    this.settings = Object.assign({}, DEFAULT_SETTINGS, loaded);
+
+    // Undo journal lives next to the settings in data.json
+    const journal = loaded?.undoJournal;
+    this.undoHistory = Array.isArray(journal)
+      ? (journal as UndoEntry[]).filter((x) => x && Array.isArray(x.moves)).map((x) => ({ ...x, id: x.id || this.newUndoId() }))
+      : [];
+    delete (this.settings as Record<string, unknown>).undoJournal;
+
+    const pending = loaded?.pendingBatches;
+    this.pendingBatches = Array.isArray(pending)
+      ? (pending as PendingBatch[]).filter((x) => x && Array.isArray(x.moves))
+      : [];
+    delete (this.settings as Record<string, unknown>).pendingBatches;
+
+    await this.loadHashCache(loaded?.hashCache as Record<string, HashRecord> | undefined);
+    delete (this.settings as Record<string, unknown>).hashCache;
+
+    this.stagingLog.load(loaded?.stagingLog as Record<string, StagedRecord> | undefined);
+    delete (this.settings as Record<string, unknown>).stagingLog;
+
+    // Migration: convert old zoneC string to extraScanFolders array
+    if (loaded && typeof loaded.zoneC === "string" && loaded.zoneC.trim()) {
+      const oldZoneC = loaded.zoneC.trim();
+      if (!this.settings.extraScanFolders.includes(oldZoneC)) {
+        this.settings.extraScanFolders = [oldZoneC];
+        this.settings.extraScanEnabled = true;
+      }
+      delete (this.settings as Record<string, unknown>).zoneC;
+      await this.persistData();
+    }
+
+    // Migration: rules saved before fm:/tag: rules existed were all regexes;
+    // keep a regex like "fm:" or "tag:x" a regex instead of reading it as a rule
+    if (loaded && typeof loaded.attachmentRulesText === "string" && loaded.attachmentRulesVersion === undefined) {
+      this.settings.attachmentRulesText = migrateRegexOnlyRules(loaded.attachmentRulesText);
+      this.settings.attachmentRulesVersion = 2;
+      await this.persistData();
+    }
+
+    // nested objects: keep defaults for keys added in later versions
+    this.settings.linkSources = { ...DEFAULT_SETTINGS.linkSources, ...this.settings.linkSources };
+    this.settings.ownership = { ...DEFAULT_SETTINGS.ownership, ...this.settings.ownership };
+    this.settings.retention = { ...DEFAULT_SETTINGS.retention, ...this.settings.retention };
+    this.settings.placement = { ...DEFAULT_SETTINGS.placement, ...this.settings.placement };
+    this.settings.placementRules = Array.isArray(this.settings.placementRules)
+      ? this.settings.placementRules.map((r) => ({
+          ...newPlacementRule(),
+          ...r,
+          placement: { ...DEFAULT_SETTINGS.placement, ...r.placement },
+        }))
+      : [];
+    this.settings.naming = { ...DEFAULT_SETTINGS.naming, ...this.settings.naming };
+    this.settings.extractors = { ...this.settings.extractors };
+    if (!Array.isArray(this.settings.pinned)) {
+      this.settings.pinned = [];
+    }
+    if (!Array.isArray(this.settings.includeGlobs)) this.settings.includeGlobs = [];
+    if (!Array.isArray(this.settings.excludeGlobs)) this.settings.excludeGlobs = [];
+    if (!Array.isArray(this.settings.frontmatterPathKeys)) {
+      this.settings.frontmatterPathKeys = [];
+    }
+
+    // Ensure extraScanFolders is always an array
+    if (!Array.isArray(this.settings.extraScanFolders)) {
+      this.settings.extraScanFolders = [];
+    }
+
+    // ensure defaults never lost
+    if (!this.settings.attachmentRulesText?.trim()) {
+      this.settings.attachmentRulesText = DEFAULT_ATTACHMENT_RULES;
+    }
+
+    // profiles saved by older versions lack keys added since
+    const profileDefaults = profileSettingsOf(DEFAULT_SETTINGS);
+    this.settings.profiles = (Array.isArray(this.settings.profiles) ? this.settings.profiles : [])
+      .filter((p) => p && typeof p.name === "string" && p.name.trim())
+      .map((p) => ({
+        ...profileDefaults,
+        ...p,
+        placement: { ...DEFAULT_SETTINGS.placement, ...p.placement },
+        naming: { ...DEFAULT_SETTINGS.naming, ...p.naming },
+      }));
+    if (!this.settings.activeProfile?.trim()) this.settings.activeProfile = "Default";
+    this.syncActiveProfile();
+  }
+
+  /** ===== Workspace profiles ===== */
+
+  /** Store the top-level (active profile) settings in the active profile's record */
+  private syncActiveProfile(): void {
+    if (this.tempProfile) return;
+    const rec: Profile = { name: this.settings.activeProfile, ...profileSettingsOf(this.settings) };
+    const i = this.settings.profiles.findIndex((p) => p.name === rec.name);
+    if (i < 0) this.settings.profiles.push(rec);
+    else this.settings.profiles[i] = rec;
+  }
+
+  profileNames(): string[] {
+    return this.settings.profiles.map((p) => p.name);
+  }
+
+  /** Name of the profile whose settings are in effect right now */
+  currentProfileName(): string {
+    return this.tempProfile?.name ?? this.settings.activeProfile;
+  }
+
+  async switchProfile(name: string): Promise<void> {
+    const target = this.settings.profiles.find((p) => p.name === name);
+    if (!target || this.tempProfile || name === this.settings.activeProfile) return;
+
+    this.syncActiveProfile();
+    Object.assign(this.settings, profileSettingsOf(target));
+    this.settings.activeProfile = name;
+    await this.saveSettings();
+  }
+
+  /** New profile copied from the active one; becomes active */
+  async addProfile(): Promise<void> {
+    const names = this.profileNames();
+    let n = names.length + 1;
+    while (names.includes(`Profile ${n}`)) n++;
+
+    this.syncActiveProfile();
+    this.settings.profiles.push({ name: `Profile ${n}`, ...profileSettingsOf(this.settings) });
+    await this.switchProfile(`Profile ${n}`);
+  }
+
+  /** Rename the active profile; false when the name is empty or taken */
+  async renameActiveProfile(name: string): Promise<boolean> {
+    const n = name.trim();
+    if (!n || this.tempProfile || this.profileNames().includes(n)) return false;
+
+    const rec = this.settings.profiles.find((p) => p.name === this.settings.activeProfile);
+    if (rec) rec.name = n;
+    this.settings.activeProfile = n;
+    await this.saveSettings();
+    return true;
+  }
+
+  /** Delete the active profile and switch to the first remaining one */
+  async deleteActiveProfile(): Promise<void> {
+    if (this.settings.profiles.length < 2 || this.tempProfile) return;
+
+    this.settings.profiles = this.settings.profiles.filter((p) => p.name !== this.settings.activeProfile);
+    const next = this.settings.profiles[0];
+    Object.assign(this.settings, profileSettingsOf(next));
+    this.settings.activeProfile = next.name;
+    await this.saveSettings();
+  }
+
+  /** Run `fn` with another profile's settings in effect, then put the active profile back.
+   * Meanwhile views and commands wait (afterProfileRun) and settings edits are refused.
+   */
+  private async withProfile<T>(name: string, fn: () => Promise<T>): Promise<T> {
+    await this.untilProfileRunEnds();
+    const target = this.settings.profiles.find((p) => p.name === name);
+    if (!target || name === this.settings.activeProfile) return fn();
+
+    this.syncActiveProfile();
+    this.tempProfile = { name, held: profileSettingsOf(this.settings) };
+    Object.assign(this.settings, profileSettingsOf(target));
+    this.dirty = true;
+    let ended = () => {};
+    this.profileRun = new Promise((resolve) => (ended = resolve));
+    this.settingTab?.display();
+    try {
+      return await fn();
+    } finally {
+      Object.assign(this.settings, this.tempProfile.held);
+      this.tempProfile = null;
+      this.profileRun = null;
+      ended();
+      this.settingTab?.display();
+      this.markDirtyAndScheduleRefresh(true);
+    }
+  }
+
+  /** Whether another profile's settings are swapped in right now */
+  isProfileRunActive(): boolean {
+    return this.tempProfile !== null;
+  }
+
+  private async untilProfileRunEnds(): Promise<void> {
+    while (this.profileRun) await this.profileRun;
+  }
 
-    // Migration: convert old zoneC string to extraScanFolders array
-    if (loaded && typeof loaded.zoneC === "string" && loaded.zoneC.trim()) {
-      const oldZoneC = loaded.zoneC.trim();
-      if (!this.settings.extraScanFolders.includes(oldZoneC)) {
-        this.settings.extraScanFolders = [oldZoneC];
-        this.settings.extraScanEnabled = true;
-      }
-      delete (this.settings as Record<string, unknown>).zoneC;
-      await this.saveData(this.settings);
-    }
+  /** Start a view/command action once no other profile's run is in progress */
+  private async afterProfileRun(fn: () => Promise<void>): Promise<void> {
+    await this.untilProfileRunEnds();
+    await fn();
+  }
 
-    // Ensure extraScanFolders is always an array
-    if (!Array.isArray(this.settings.extraScanFolders)) {
-      this.settings.extraScanFolders = [];
+  /** Overlaps involving any of the named profiles */
+  private profileOverlaps(names: string[]): ProfileOverlap[] {
+    return findProfileOverlaps(this.settings.profiles).filter((o) => o.profiles.some((p) => names.includes(p)));
+  }
+
+  /** Scan profiles and summarize each plan */
+  async scanProfiles(names: string[]): Promise<void> {
+    const lines: string[] = [];
+    for (const name of names) {
+      const { stats } = await this.withProfile(name, () => this.detectReport(true));
+      lines.push(`${name}: ${stats.todo} to do, ${stats.conflicts} conflict(s), ${stats.missing} missing`);
     }
 
-    // ensure defaults never lost
-    if (!this.settings.attachmentRulesText?.trim()) {
-      this.settings.attachmentRulesText = DEFAULT_ATTACHMENT_RULES;
+    const overlaps = this.profileOverlaps(names);
+    if (overlaps.length > 0) lines.push("", "⚠ Overlapping profiles:", ...overlaps.slice(0, 3).map((o) => o.message));
+    new Notice(lines.join("\n"), 10000);
+  }
+
+  /** Apply the plan of each profile in turn; refused while profiles overlap */
+  async applyProfiles(names: string[]): Promise<void> {
+    const overlaps = this.profileOverlaps(names);
+    if (overlaps.length > 0) {
+      new Notice(`Profiles overlap, nothing applied:\n${overlaps.slice(0, 3).map((o) => o.message).join("\n")}`, 10000);
+      return;
     }
+    for (const name of names) {
+      await this.withProfile(name, () => this.applyPlan());
+    }
+  }
+
+  /** Pick a profile, then act on it */
+  private pickProfile(onPick: (name: string) => void): void {
+    new ProfileSuggestModal(this.app, this.profileNames(), onPick).open();
   }
 }
 
@@ -1200,6 +3606,77 @@ class KPluginSettingTab extends PluginSettingTab {
     const { containerEl } = this;
     containerEl.empty();
 
+    // edits would land in the swapped-in profile and be lost; redrawn when the run ends
+    if (this.plugin.isProfileRunActive()) {
+      containerEl.createEl("p", {
+        text: `The plan of profile ${this.plugin.currentProfileName()} is running. Settings are available again when it finishes.`,
+      });
+      return;
+    }
+
+    new Setting(containerEl).setName("Workspace profiles").setHeading();
+
+    new Setting(containerEl)
+      .setName("Active profile")
+      .setDesc(
+        "Folders, placement, naming and conflict settings below belong to the active profile, as do the settings marked per profile. Other settings are shared by all profiles"
+      )
+      .addDropdown((dd) => {
+        for (const name of this.plugin.profileNames()) dd.addOption(name, name);
+        dd.setValue(this.plugin.settings.activeProfile).onChange(async (v) => {
+          await this.plugin.switchProfile(v);
+          this.display();
+        });
+      })
+      .addExtraButton((b) =>
+        b
+          .setIcon("plus")
+          .setTooltip("Add profile (copy of this one)")
+          .onClick(async () => {
+            await this.plugin.addProfile();
+            this.display();
+          })
+      )
+      .addExtraButton((b) =>
+        b
+          .setIcon("trash")
+          .setTooltip("Delete this profile")
+          .setDisabled(this.plugin.settings.profiles.length < 2)
+          .onClick(async () => {
+            await this.plugin.deleteActiveProfile();
+            this.display();
+          })
+      );
+
+    const nameSetting = new Setting(containerEl).setName("Profile name");
+    const renameError = nameSetting.descEl.createDiv({ cls: "katt-setting-error" });
+    nameSetting.addText((t) => {
+      t.setValue(this.plugin.settings.activeProfile);
+      // Reason: a rename saves and rescans; commit the finished name, not every keystroke
+      const commit = async () => {
+        const v = t.getValue();
+        if (v.trim() === this.plugin.settings.activeProfile) {
+          renameError.setText("");
+        } else if (await this.plugin.renameActiveProfile(v)) {
+          this.display(); // the profile dropdown lists the new name
+        } else {
+          renameError.setText("Name is empty or already used by another profile");
+        }
+      };
+      t.inputEl.addEventListener("blur", () => void commit());
+      t.inputEl.addEventListener("keydown", (ev) => {
+        if (ev.key === "Enter") t.inputEl.blur();
+      });
+    });
+
+    const overlaps = findProfileOverlaps(this.plugin.settings.profiles);
+    if (overlaps.length > 0) {
+      containerEl.createDiv({
+        cls: "katt-setting-error",
+        text: `Overlapping profiles (apply is blocked): ${overlaps.map((o) => o.message).join("; ")}`,
+      });
+    }
+
     new Setting(containerEl).setName("Folders").setHeading();
 
     new Setting(containerEl)
@@ -1305,7 +3782,7 @@ class KPluginSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName("Recursive scan")
-      .setDesc("Include subfolders when scanning")
+      .setDesc("Include subfolders when scanning (per profile)")
       .addToggle((tg) =>
         tg.setValue(this.plugin.settings.recursive).onChange(async (v) => {
           this.plugin.settings.recursive = v;
@@ -1313,11 +3790,43 @@ class KPluginSettingTab extends PluginSettingTab {
         })
       );
 
+    new Setting(containerEl)
+      .setName("Exclude patterns")
+      .setDesc(
+        "Glob patterns (one per line) for files and folders to leave out of scanning and planning, e.g. Templates/** or *.json. A pattern without a slash matches a name at any depth. Files that excluded notes link to are still kept in place"
+      )
+      .addTextArea((ta) => {
+        ta.inputEl.rows = 3;
+        ta.setValue(this.plugin.settings.excludeGlobs.join("\n"));
+        ta.onChange(async (v) => {
+          this.plugin.settings.excludeGlobs = v
+            .split("\n")
+            .map((x) => x.trim())
+            .filter(Boolean);
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Include patterns")
+      .setDesc("When set, only attachments matching one of these glob patterns are organized, e.g. *.{png,jpg,pdf}. Notes are not affected")
+      .addTextArea((ta) => {
+        ta.inputEl.rows = 3;
+        ta.setValue(this.plugin.settings.includeGlobs.join("\n"));
+        ta.onChange(async (v) => {
+          this.plugin.settings.includeGlobs = v
+            .split("\n")
+            .map((x) => x.trim())
+            .filter(Boolean);
+          await this.plugin.saveSettings();
+        });
+      });
+
     new Setting(containerEl).setName("Link detection").setHeading();
 
     new Setting(containerEl)
       .setName("Backlink scope")
-      .setDesc("Which notes to analyze for attachment references")
+      .setDesc("Which notes to analyze for attachment references (per profile)")
       .addDropdown((dd) =>
         dd
           .addOption("zoneA-only", "Workspace only")
@@ -1332,7 +3841,9 @@ class KPluginSettingTab extends PluginSettingTab {
     // Link sources with labeled toggles
     const linkSourcesSetting = new Setting(containerEl)
       .setName("Link sources")
-      .setDesc("Types of links to detect: [[links]], ![[embeds]], frontmatter links");
+      .setDesc(
+        "Types of links to detect: [[links]], ![[embeds]], frontmatter links, canvas file cards, links inside attachment notes such as drawings"
+      );
     
     const toggleContainer = linkSourcesSetting.controlEl.createDiv({ cls: "katt-link-toggles" });
 
@@ -1367,6 +3878,82 @@ class KPluginSettingTab extends PluginSettingTab {
       void this.plugin.saveSettings();
     });
 
+    // Attachment-md toggle with label
+    const amdLabel = toggleContainer.createEl("label", { cls: "katt-toggle-label" });
+    const amdToggle = amdLabel.createEl<"input">("input", { type: "checkbox" });
+    amdToggle.checked = this.plugin.settings.linkSources.attachmentMd;
+    amdLabel.createSpan({ text: "Attachment notes" });
+    amdToggle.addEventListener("change", () => {
+      this.plugin.settings.linkSources.attachmentMd = amdToggle.checked;
+      void this.plugin.saveSettings();
+    });
+
+    // Canvas toggle with label
+    const canvasLabel = toggleContainer.createEl("label", { cls: "katt-toggle-label" });
+    const canvasToggle = canvasLabel.createEl<"input">("input", { type: "checkbox" });
+    canvasToggle.checked = this.plugin.settings.linkSources.canvas;
+    canvasLabel.createSpan({ text: "Canvas" });
+    canvasToggle.addEventListener("change", () => {
+      this.plugin.settings.linkSources.canvas = canvasToggle.checked;
+      void this.plugin.saveSettings();
+    });
+
+    // Reference types that confer ownership
+    const ownershipSetting = new Setting(containerEl)
+      .setName("Ownership")
+      .setDesc(
+        "Reference types that let a note decide where a file goes. Unchecked types only keep the file from being marked an orphan"
+      );
+    const ownershipContainer = ownershipSetting.controlEl.createDiv({ cls: "katt-link-toggles" });
+    const ownershipLabels: [BacklinkSource, string][] = [
+      ["link", "Links"],
+      ["embed", "Embeds"],
+      ["frontmatter", "Frontmatter"],
+      ["canvas", "Canvas"],
+      ["extractor", "Extractors"],
+    ];
+    for (const [source, text] of ownershipLabels) {
+      const label = ownershipContainer.createEl("label", { cls: "katt-toggle-label" });
+      const toggle = label.createEl<"input">("input", { type: "checkbox" });
+      toggle.checked = this.plugin.settings.ownership[source];
+      label.createSpan({ text });
+      toggle.addEventListener("change", () => {
+        this.plugin.settings.ownership[source] = toggle.checked;
+        void this.plugin.saveSettings();
+      });
+    }
+
+    new Setting(containerEl)
+      .setName("Frontmatter path properties")
+      .setDesc("Property keys (one per line) whose plain values are file paths, e.g. cover: images/cover.png. Lists are supported")
+      .addTextArea((ta) => {
+        ta.inputEl.rows = 3;
+        ta.setValue(this.plugin.settings.frontmatterPathKeys.join("\n"));
+        ta.onChange(async (v) => {
+          this.plugin.settings.frontmatterPathKeys = v
+            .split("\n")
+            .map((k) => k.trim())
+            .filter(Boolean);
+          await this.plugin.saveSettings();
+        });
+      });
+
+    // Reference extractors (built-in + registered by other plugins)
+    // Reason: extractors read file text, which the metadata cache otherwise spares every scan
+    for (const x of this.plugin.api.listExtractors()) {
+      new Setting(containerEl)
+        .setName(`Extractor: ${x.name}`)
+        .setDesc(
+          `${x.description ? `${x.description}. ` : ""}Reads the full text of every scanned file (and of the whole vault for files that look unreferenced), so scans of large vaults get slower`
+        )
+        .addToggle((tg) =>
+          tg.setValue(this.plugin.settings.extractors[x.id] ?? x.enabledByDefault ?? true).onChange(async (v) => {
+            this.plugin.settings.extractors[x.id] = v;
+            await this.plugin.saveSettings();
+          })
+        );
+    }
+
     new Setting(containerEl).setName("Placement policy").setHeading();
 
     new Setting(containerEl)
@@ -1378,9 +3965,10 @@ class KPluginSettingTab extends PluginSettingTab {
           .addOption("specified-folder", "Specified folder")
           .addOption("same-folder-as-note", "Same folder as note")
           .addOption("subfolder-under-note", "Subfolder under note")
+          .addOption("template", "Template")
           .setValue(this.plugin.settings.placement.mode)
           .onChange(async (v) => {
-            this.plugin.settings.placement.mode = v as "vault-folder" | "specified-folder" | "same-folder-as-note" | "subfolder-under-note";
+            this.plugin.settings.placement.mode = v as PlacementMode;
             await this.plugin.saveSettings();
             this.display();
           })
@@ -1416,6 +4004,115 @@ class KPluginSettingTab extends PluginSettingTab {
         );
     }
 
+    if (this.plugin.settings.placement.mode === "template") {
+      const templateSetting = new Setting(containerEl)
+        .setName("Folder template")
+        .setDesc(`Variables: ${PLACEMENT_TEMPLATE_VARS.map((v) => `\${${v}}`).join(", ")}`);
+      const templateError = templateSetting.descEl.createDiv({ cls: "katt-setting-error" });
+      const showError = (template: string) => {
+        const err = validatePlacementTemplate(template);
+        templateError.setText(err ? `⚠ ${err}` : "");
+      };
+      templateSetting.addText((t) =>
+        t
+          .setPlaceholder("${noteFolder}/${noteName}.assets")
+          .setValue(this.plugin.settings.placement.template)
+          .onChange(async (v) => {
+            this.plugin.settings.placement.template = v.trim();
+            showError(v);
+            await this.plugin.saveSettings();
+          })
+      );
+      showError(this.plugin.settings.placement.template);
+    }
+
+    this.displayPlacementRules(containerEl);
+
+    new Setting(containerEl)
+      .setName("Folder config files")
+      .setDesc(
+        `Read ${FOLDER_CONFIG_FILE} in any folder to override placement, multi-backlink policy and global name check for that folder and everything below it`
+      )
+      .addToggle((tg) =>
+        tg.setValue(this.plugin.settings.folderConfigs).onChange(async (v) => {
+          this.plugin.settings.folderConfigs = v;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl)
+      .setName("Note override property")
+      .setDesc(
+        "Frontmatter key a note can set to place its own attachments: a folder relative to the note (assets) or to the vault (/absolute), a folder template, or keep to leave them where they are. Empty disables"
+      )
+      .addText((t) =>
+        t
+          .setValue(this.plugin.settings.noteOverrideKey)
+          .onChange(async (v) => {
+            this.plugin.settings.noteOverrideKey = v.trim();
+            await this.plugin.saveSettings();
+          })
+      );
+
+    new Setting(containerEl)
+      .setName("Rename attachments")
+      .setDesc("Give matching attachments a name from a template when organizing. Links in referencing notes are updated")
+      .addToggle((tg) =>
+        tg.setValue(this.plugin.settings.naming.enabled).onChange(async (v) => {
+          this.plugin.settings.naming.enabled = v;
+          await this.plugin.saveSettings();
+          this.display();
+        })
+      );
+
+    if (this.plugin.settings.naming.enabled) {
+      const nameSetting = new Setting(containerEl)
+        .setName("Name template")
+        .setDesc(`File name without extension. Variables: ${NAME_TEMPLATE_VARS.map((v) => `\${${v}}`).join(", ")}`);
+      const nameError = nameSetting.descEl.createDiv({ cls: "katt-setting-error" });
+      const showNameError = (template: string) => {
+        const err = validateNameTemplate(template);
+        nameError.setText(err ? `⚠ ${err}` : "");
+      };
+      nameSetting.addText((t) =>
+        t
+          .setPlaceholder("${noteName}-${index}")
+          .setValue(this.plugin.settings.naming.template)
+          .onChange(async (v) => {
+            this.plugin.settings.naming.template = v.trim();
+            showNameError(v);
+            await this.plugin.saveSettings();
+          })
+      );
+      showNameError(this.plugin.settings.naming.template);
+
+      new Setting(containerEl)
+        .setName("Rename only names matching")
+        .setDesc("Regex tested against the file name; empty renames every referenced attachment")
+        .addText((t) =>
+          t
+            .setValue(this.plugin.settings.naming.match)
+            .onChange(async (v) => {
+              this.plugin.settings.naming.match = v;
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
+    new Setting(containerEl)
+      .setName("Move mode")
+      .setDesc("Rewrite links that use an explicit path (folder/img.png, ../img.png) so they keep working after a move. Undo restores the note text too")
+      .addDropdown((dd) =>
+        dd
+          .addOption("rename", "Move only")
+          .addOption("rewrite-links", "Move and rewrite links")
+          .setValue(this.plugin.settings.moveMode)
+          .onChange(async (v) => {
+            this.plugin.settings.moveMode = v as MoveMode;
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl).setName("Conflict handling").setHeading();
 
     new Setting(containerEl)
@@ -1426,13 +4123,34 @@ class KPluginSettingTab extends PluginSettingTab {
           .addOption("unchanged", "Keep in place")
           .addOption("lca", "Move to common ancestor folder")
           .addOption("pick-first", "Move to first note's folder")
+          .addOption("majority", "Move to folder with most referencing notes")
+          .addOption("shallowest-note", "Move to shallowest note's folder")
+          .addOption("most-recent-note", "Move to most recently modified note's folder")
+          .addOption("shared-pool", "Move to shared pool folder")
+          .addOption("copy-per-note", "Copy next to each note")
           .setValue(this.plugin.settings.multiBacklinkPolicy)
           .onChange(async (v) => {
-            this.plugin.settings.multiBacklinkPolicy = v as "unchanged" | "lca" | "pick-first";
+            this.plugin.settings.multiBacklinkPolicy = v as MultiBacklinkPolicy;
             await this.plugin.saveSettings();
+            this.display();
           })
       );
 
+    if (this.plugin.settings.multiBacklinkPolicy === "shared-pool") {
+      new Setting(containerEl)
+        .setName("Shared pool folder")
+        .setDesc("Attachments referenced by more than one note are moved here")
+        .addText((t) =>
+          t
+            .setPlaceholder("Shared")
+            .setValue(this.plugin.settings.sharedPoolFolder)
+            .onChange(async (v) => {
+              this.plugin.settings.sharedPoolFolder = v.trim();
+              await this.plugin.saveSettings();
+            })
+        );
+    }
+
     new Setting(containerEl)
       .setName("Global name check")
       .setDesc("Prevent moves that would create duplicate filenames in vault")
@@ -1448,9 +4166,25 @@ class KPluginSettingTab extends PluginSettingTab {
           })
       );
 
+    new Setting(containerEl)
+      .setName("Conflict strategy")
+      .setDesc("How to resolve a target that is taken or a name that is ambiguous. Renamed files get their links updated in referencing notes")
+      .addDropdown((dd) =>
+        dd
+          .addOption("skip", "Skip (mark as conflict)")
+          .addOption("numeric-suffix", "Add numeric suffix")
+          .addOption("note-prefix", "Prefix with note name")
+          .addOption("content-hash", "Add short content hash")
+          .setValue(this.plugin.settings.conflictStrategy)
+          .onChange(async (v) => {
+            this.plugin.settings.conflictStrategy = v as ConflictStrategy;
+            await this.plugin.saveSettings();
+          })
+      );
+
     new Setting(containerEl)
       .setName("Plan external attachments")
-      .setDesc("Include referenced files outside workspace/staging in the plan")
+      .setDesc("Include referenced files outside workspace/staging in the plan (per profile)")
       .addToggle((tg) =>
         tg.setValue(this.plugin.settings.planOutAttachments).onChange(async (v) => {
           this.plugin.settings.planOutAttachments = v;
@@ -1462,7 +4196,9 @@ class KPluginSettingTab extends PluginSettingTab {
 
     new Setting(containerEl)
       .setName("Attachment rules")
-      .setDesc("Regex patterns (one per line) to identify .md files as attachments. Files matching these are treated as attachments, not notes. Example: \\.excalidraw\\.md$ matches Excalidraw files")
+      .setDesc(
+        "Rules (one per line) that identify .md files as attachments, not notes: a regex tested against the path (\\.excalidraw\\.md$), fm:key or fm:key=value for a frontmatter property (fm:excalidraw-plugin=parsed), or tag:name. A regex that itself starts with fm: or tag: needs wrapping in (?:…); older rules were wrapped on update"
+      )
       .addTextArea((ta) => {
         ta.inputEl.rows = 4;
         ta.inputEl.addClass("katt-rules-textarea");
@@ -1473,6 +4209,85 @@ class KPluginSettingTab extends PluginSettingTab {
         });
       });
 
+    new Setting(containerEl)
+      .setName("Pinned files and folders")
+      .setDesc("Vault paths (one per line) the organizer leaves alone; a folder pins everything below it. Also editable from the organizer's context menu")
+      .addTextArea((ta) => {
+        ta.inputEl.rows = 4;
+        ta.setValue(this.plugin.settings.pinned.join("\n"));
+        ta.onChange(async (v) => {
+          this.plugin.settings.pinned = v
+            .split("\n")
+            .map((x) => x.trim())
+            .filter(Boolean);
+          await this.plugin.saveSettings();
+        });
+      });
+
+    new Setting(containerEl)
+      .setName("Detect duplicates")
+      .setDesc("Hash attachment contents to find byte-identical copies. Hashes are cached by modification time and size")
+      .addToggle((tg) =>
+        tg.setValue(this.plugin.settings.detectDuplicates).onChange(async (v) => {
+          this.plugin.settings.detectDuplicates = v;
+          await this.plugin.saveSettings();
+        })
+      );
+
+    new Setting(containerEl).setName("Staging retention").setHeading();
+
+    const retention = this.plugin.settings.retention;
+    const whole = (v: string) => (/^\d+$/.test(v.trim()) ? Number(v.trim()) : null);
+
+    new Setting(containerEl)
+      .setName("Clean up staging")
+      .setDesc("Offer files the organizer moved into staging for deletion once they stay unreferenced long enough. Deleted files go to the trash chosen in your vault settings")
+      .addToggle((tg) =>
+        tg.setValue(retention.enabled).onChange(async (v) => {
+          retention.enabled = v;
+          await this.plugin.saveSettings();
+          this.display(); // refresh to show/hide retention options
+        })
+      );
+
+    if (retention.enabled) {
+      new Setting(containerEl)
+        .setName("Retention age")
+        .setDesc("Days a file stays in staging, counted from when the organizer moved it there. Files you put there yourself are never offered")
+        .addText((t) => {
+          t.inputEl.type = "number";
+          t.setPlaceholder("30")
+            .setValue(String(retention.days))
+            .onChange(async (v) => {
+              const n = whole(v);
+              if (n === null) return;
+              retention.days = n;
+              await this.plugin.saveSettings();
+            });
+        });
+
+      new Setting(containerEl)
+        .setName("Automatic cleanup")
+        .setDesc("On startup, move candidates to the trash without a review when there are at most the number below. More candidates open the review instead")
+        .addToggle((tg) =>
+          tg.setValue(retention.auto).onChange(async (v) => {
+            retention.auto = v;
+            await this.plugin.saveSettings();
+          })
+        )
+        .addText((t) => {
+          t.inputEl.type = "number";
+          t.setPlaceholder("10")
+            .setValue(String(retention.autoMax))
+            .onChange(async (v) => {
+              const n = whole(v);
+              if (n === null) return;
+              retention.autoMax = n;
+              await this.plugin.saveSettings();
+            });
+        });
+    }
+
     new Setting(containerEl).setName("View").setHeading();
 
     new Setting(containerEl)
@@ -1485,6 +4300,189 @@ class KPluginSettingTab extends PluginSettingTab {
         })
       );
   }
+
+  /** Ordered placement rules: conditions + target policy per rule */
+  private displayPlacementRules(containerEl: HTMLElement): void {
+    const rules = this.plugin.settings.placementRules;
+    const rulesContainer = containerEl.createDiv({ cls: "katt-placement-rules" });
+
+    new Setting(rulesContainer)
+      .setName("Placement rules")
+      .setDesc("Checked in order; the first rule whose conditions all match decides the placement. Empty conditions match anything. Files no rule matches use the placement mode above");
+
+    const list = (v: string) => v.split(",").map((x) => x.trim()).filter(Boolean);
+    const sizeOf = (v: string) => (v.trim() && !isNaN(Number(v)) ? Number(v) : null);
+    const save = async () => {
+      await this.plugin.saveSettings();
+    };
+
+    rules.forEach((rule, i) => {
+      const box = rulesContainer.createDiv({ cls: "katt-placement-rule" });
+
+      new Setting(box)
+        .setName(`Rule ${i + 1}`)
+        .addText((t) =>
+          t
+            .setPlaceholder("Name")
+            .setValue(rule.name)
+            .onChange(async (v) => {
+              rule.name = v.trim();
+              await save();
+            })
+        )
+        .addToggle((tg) =>
+          tg.setTooltip("Enabled").setValue(rule.enabled).onChange(async (v) => {
+            rule.enabled = v;
+            await save();
+          })
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("arrow-up")
+            .setTooltip("Move up")
+            .setDisabled(i === 0)
+            .onClick(async () => {
+              if (i === 0) return;
+              rules.splice(i - 1, 0, rules.splice(i, 1)[0]);
+              await save();
+              this.display();
+            })
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("arrow-down")
+            .setTooltip("Move down")
+            .setDisabled(i === rules.length - 1)
+            .onClick(async () => {
+              if (i === rules.length - 1) return;
+              rules.splice(i + 1, 0, rules.splice(i, 1)[0]);
+              await save();
+              this.display();
+            })
+        )
+        .addExtraButton((btn) =>
+          btn
+            .setIcon("trash")
+            .setTooltip("Remove rule")
+            .onClick(async () => {
+              rules.splice(i, 1);
+              await save();
+              this.display();
+            })
+        );
+
+      new Setting(box)
+        .setName("When")
+        .setDesc("Extensions and tags are comma-separated; sizes in kilobytes; zones: a, b, c or out")
+        .addText((t) =>
+          t
+            .setPlaceholder("Extensions")
+            .setValue(rule.extensions.join(", "))
+            .onChange(async (v) => {
+              rule.extensions = list(v);
+              await save();
+            })
+        )
+        .addText((t) =>
+          t
+            .setPlaceholder("Note folder")
+            .setValue(rule.noteFolder)
+            .onChange(async (v) => {
+              rule.noteFolder = v.trim();
+              await save();
+            })
+        )
+        .addText((t) =>
+          t
+            .setPlaceholder("Note tags")
+            .setValue(rule.noteTags.join(", "))
+            .onChange(async (v) => {
+              rule.noteTags = list(v);
+              await save();
+            })
+        )
+        .addText((t) =>
+          t
+            .setPlaceholder("Min size")
+            .setValue(rule.minSizeKB === null ? "" : String(rule.minSizeKB))
+            .onChange(async (v) => {
+              rule.minSizeKB = sizeOf(v);
+              await save();
+            })
+        )
+        .addText((t) =>
+          t
+            .setPlaceholder("Max size")
+            .setValue(rule.maxSizeKB === null ? "" : String(rule.maxSizeKB))
+            .onChange(async (v) => {
+              rule.maxSizeKB = sizeOf(v);
+              await save();
+            })
+        )
+        .addText((t) =>
+          t
+            .setPlaceholder("Zones")
+            .setValue(rule.zones.join(", "))
+            .onChange(async (v) => {
+              rule.zones = list(v)
+                .map((z) => z.toUpperCase())
+                .filter((z): z is Zone => z === "A" || z === "B" || z === "C" || z === "OUT");
+              await save();
+            })
+        );
+
+      // value field depends on the mode: folder / subfolder / template
+      const valueOf = (p: PlacementPolicy) =>
+        p.mode === "specified-folder" ? p.specifiedFolder : p.mode === "subfolder-under-note" ? p.subfolderName : p.template;
+
+      const placeSetting = new Setting(box)
+        .setName("Place")
+        .setDesc("Folder for specified folder, subfolder name, or folder template (same variables as above)");
+      const templateError = placeSetting.descEl.createDiv({ cls: "katt-setting-error" });
+      const showError = () => {
+        const err = rule.placement.mode === "template" ? validatePlacementTemplate(rule.placement.template) : null;
+        templateError.setText(err ? `⚠ ${err}` : "");
+      };
+      placeSetting
+        .addDropdown((dd) =>
+          dd
+            .addOption("vault-folder", "Vault root")
+            .addOption("specified-folder", "Specified folder")
+            .addOption("same-folder-as-note", "Same folder as note")
+            .addOption("subfolder-under-note", "Subfolder under note")
+            .addOption("template", "Template")
+            .setValue(rule.placement.mode)
+            .onChange(async (v) => {
+              rule.placement.mode = v as PlacementMode;
+              await save();
+              this.display();
+            })
+        )
+        .addText((t) => {
+          const needsValue = rule.placement.mode !== "vault-folder" && rule.placement.mode !== "same-folder-as-note";
+          t.inputEl.toggle(needsValue);
+          t.setValue(valueOf(rule.placement)).onChange(async (v) => {
+            const p = rule.placement;
+            if (p.mode === "specified-folder") p.specifiedFolder = v.trim();
+            else if (p.mode === "subfolder-under-note") p.subfolderName = v.trim();
+            else if (p.mode === "template") p.template = v.trim();
+            showError();
+            await save();
+          });
+        });
+      showError();
+    });
+
+    new Setting(rulesContainer).addButton((btn) =>
+      btn
+        .setButtonText("Add rule")
+        .onClick(async () => {
+          rules.push(newPlacementRule());
+          await save();
+          this.display();
+        })
+    );
+  }
 }
 
 /** ===== Confirmation Modal =====
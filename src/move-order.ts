@@ -0,0 +1,86 @@
+import type { MoveStep } from "./main";
+
+/** ===== Move ordering =====
+ * Planned moves form chains and simple cycles: a move "waits for" the file
+ * currently sitting on its target to move away first. Every target has at most
+ * one planned mover and one occupant, so each node has at most one dependency.
+ *
+ * - chains (A→B while B→C): emitted deepest first (B→C, then A→B)
+ * - cycles (A→B, B→A): one file hops to a temporary path first, the rest of
+ *   the cycle runs, then the parked file moves from the temp path to its target
+ */
+export function orderMoves(
+  planned: Map<string, string>, // entry path -> target path
+  waitsFor: Map<string, string>, // entry path -> occupant path that must move first
+  tempPathFor: (path: string) => string
+): MoveStep[] {
+  const steps: MoveStep[] = [];
+  const done = new Set<string>();
+
+  const emitOne = (p: string) => {
+    const to = planned.get(p);
+    if (to === undefined) return;
+    steps.push({ from: p, to, source: p });
+    done.add(p);
+  };
+
+  const emit = (start: string) => {
+    const walk: string[] = [];
+    const pos = new Map<string, number>();
+
+    let cur: string | undefined = start;
+    while (cur !== undefined && planned.has(cur) && !done.has(cur) && !pos.has(cur)) {
+      pos.set(cur, walk.length);
+      walk.push(cur);
+      cur = waitsFor.get(cur);
+    }
+
+    let tail = walk.length;
+
+    const ci = cur !== undefined ? pos.get(cur) : undefined;
+    if (ci !== undefined) {
+      // cycle: walk[ci] waits for walk[ci+1] ... last waits for walk[ci]
+      const cycle = walk.slice(ci);
+      const parked = cycle[0];
+      const tmp = tempPathFor(parked);
+
+      steps.push({ from: parked, to: tmp, source: parked, temp: true });
+      for (let i = cycle.length - 1; i >= 1; i--) emitOne(cycle[i]);
+      steps.push({ from: tmp, to: planned.get(parked) ?? parked, source: parked, temp: true });
+      done.add(parked);
+
+      tail = ci;
+    }
+
+    for (let i = tail - 1; i >= 0; i--) emitOne(walk[i]);
+  };
+
+  const starts = [...planned.keys()].sort((a, b) => a.localeCompare(b));
+  for (const p of starts) {
+    if (!done.has(p)) emit(p);
+  }
+
+  return steps;
+}
+
+/** Indices of the journaled moves forming the swap/cycle that contains `index`:
+ * from the hop onto a temporary path to the hop off it. A move outside any
+ * cycle is its own group. Reverting part of a cycle would leave a file parked
+ * at its temporary path.
+ */
+export function cycleGroupOf(moves: { from: string; to: string; temp?: boolean }[], index: number): number[] {
+  for (let i = 0; i < moves.length; i++) {
+    if (!moves[i].temp) continue;
+    let j = i + 1;
+    while (j < moves.length && !(moves[j].temp && moves[j].from === moves[i].to)) j++;
+    if (j === moves.length) continue; // hop off a temp path, or a cycle whose last hop failed
+
+    if (index >= i && index <= j) {
+      const group: number[] = [];
+      for (let k = i; k <= j; k++) group.push(k);
+      return group;
+    }
+    i = j;
+  }
+  return [index];
+}
@@ -0,0 +1,60 @@
+/** ===== Naming templates =====
+ * New file names like `${noteName}-${index}` or `${alt}`; the extension is kept.
+ *
+ * Variables:
+ * - noteName: owning note without extension
+ * - index: 1-based position among the note's renamed attachments
+ * - alt: slug of the embed's alt text (falls back to the slugged file name)
+ * - basename: current file name without extension
+ */
+export type NameVars = {
+  noteName: string;
+  index: number;
+  alt: string;
+  basename: string;
+};
+
+export const NAME_TEMPLATE_VARS = ["noteName", "index", "alt", "basename"];
+
+const VAR_RE = /\$\{([^}]*)\}/g;
+const ILLEGAL_CHARS = /[\\/:*?"<>|#^[\]]/;
+
+/** Lowercase words joined by "-"; accents dropped, non-ASCII letters kept */
+export function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[\s!-/:-@[-`{-~]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/** Syntax check: unknown variables / unclosed ${ */
+export function validateNameTemplate(template: string): string | null {
+  if (!template.trim()) return "template is empty";
+
+  const unknown: string[] = [];
+  const stripped = template.replace(VAR_RE, (_m, name: string) => {
+    if (!NAME_TEMPLATE_VARS.includes(name.trim())) unknown.push(name.trim());
+    return "x";
+  });
+  if (unknown.length > 0) return `unknown variable \${${unknown[0]}}`;
+  if (stripped.includes("${")) return "unclosed ${";
+  return null;
+}
+
+/** Render a file stem (no extension); null when the result is not a legal file name */
+export function renderNameTemplate(template: string, vars: NameVars): string | null {
+  if (validateNameTemplate(template)) return null;
+
+  const values: Record<string, string> = {
+    noteName: vars.noteName,
+    index: String(vars.index),
+    alt: slugify(vars.alt) || slugify(vars.basename),
+    basename: vars.basename,
+  };
+  const stem = template.replace(VAR_RE, (_m, name: string) => values[name.trim()] ?? "").trim();
+
+  if (!stem || stem.startsWith(".") || stem.endsWith(".") || ILLEGAL_CHARS.test(stem)) return null;
+  return stem;
+}
@@ -0,0 +1,42 @@
+import type { PlacementRule, Zone } from "./main";
+
+/** Facts about one attachment and its referencing note, checked by rule conditions */
+export type RuleFacts = {
+  ext: string; // lowercase, no dot
+  noteFolder: string;
+  noteTags: string[]; // without "#"
+  size: number; // bytes
+  zone: Zone;
+};
+
+/** ===== Placement rules =====
+ * Ordered rules; the first enabled rule whose conditions all hold wins.
+ * Empty conditions match anything.
+ */
+export function matchPlacementRule(rules: PlacementRule[], facts: RuleFacts): PlacementRule | null {
+  for (const rule of rules) {
+    if (rule.enabled && ruleMatches(rule, facts)) return rule;
+  }
+  return null;
+}
+
+function ruleMatches(rule: PlacementRule, f: RuleFacts): boolean {
+  const exts = rule.extensions.map((x) => x.trim().toLowerCase().replace(/^\./, "")).filter(Boolean);
+  if (exts.length > 0 && !exts.includes(f.ext)) return false;
+
+  const folder = rule.noteFolder.trim().replace(/^\/+|\/+$/g, "");
+  if (folder && f.noteFolder !== folder && !f.noteFolder.startsWith(`${folder}/`)) return false;
+
+  // a rule tag also matches nested tags: "project" matches "project/alpha"
+  const tags = rule.noteTags.map((t) => t.trim().replace(/^#/, "").toLowerCase()).filter(Boolean);
+  if (tags.length > 0) {
+    const noteTags = f.noteTags.map((t) => t.toLowerCase());
+    if (!tags.some((t) => noteTags.some((n) => n === t || n.startsWith(`${t}/`)))) return false;
+  }
+
+  if (rule.minSizeKB !== null && f.size < rule.minSizeKB * 1024) return false;
+  if (rule.maxSizeKB !== null && f.size > rule.maxSizeKB * 1024) return false;
+
+  if (rule.zones.length > 0 && !rule.zones.includes(f.zone)) return false;
+  return true;
+}
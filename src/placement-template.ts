@@ -0,0 +1,105 @@
+/** ===== Placement templates =====
+ * Folder templates like `${noteFolder}/${noteName}.assets` or `assets/${ext}`.
+ *
+ * Variables:
+ * - note: noteName, noteFolder, fm.<key> (frontmatter field of the note)
+ * - file: ext, basename, yyyy / MM / dd (modification date)
+ * - zone: zone of the file (A / B / C / OUT)
+ */
+export type PlacementVars = {
+  noteName: string;
+  noteFolder: string;
+  frontmatter: Record<string, unknown> | undefined;
+  ext: string;
+  basename: string;
+  mtime: number;
+  zone: string;
+};
+
+export const PLACEMENT_TEMPLATE_VARS = ["noteName", "noteFolder", "fm.<key>", "ext", "basename", "yyyy", "MM", "dd", "zone"];
+
+const SIMPLE_VARS = new Set(["noteName", "noteFolder", "ext", "basename", "yyyy", "MM", "dd", "zone"]);
+const VAR_RE = /\$\{([^}]*)\}/g;
+const ILLEGAL_CHARS = /[\\:*?"<>|#^[\]]/;
+
+/** Syntax check without a file: unknown variables / unclosed ${ */
+export function validatePlacementTemplate(template: string): string | null {
+  if (!template.trim()) return "template is empty";
+
+  const unknown: string[] = [];
+  const stripped = template.replace(VAR_RE, (_m, name: string) => {
+    const n = name.trim();
+    if (!SIMPLE_VARS.has(n) && !/^fm\.[^.]+$/.test(n)) unknown.push(n);
+    return "x";
+  });
+  if (unknown.length > 0) return `unknown variable \${${unknown[0]}}`;
+  if (stripped.includes("${")) return "unclosed ${";
+  return null;
+}
+
+function two(n: number): string {
+  return `0${n}`.slice(-2);
+}
+
+function fmValue(fm: Record<string, unknown> | undefined, key: string): string | null {
+  if (!fm) return null;
+  const k = Object.keys(fm).find((x) => x.toLowerCase() === key.toLowerCase());
+  if (k === undefined) return null;
+
+  const v = fm[k];
+  const first = Array.isArray(v) ? (v as unknown[])[0] : v;
+  if (typeof first === "string") return first.trim() || null;
+  if (typeof first === "number" || typeof first === "boolean") return String(first);
+  return null;
+}
+
+/** Render a template to a vault folder path; illegal results come back as an error */
+export function renderPlacementTemplate(template: string, vars: PlacementVars): { folder: string } | { error: string } {
+  const syntax = validatePlacementTemplate(template);
+  if (syntax) return { error: syntax };
+
+  const date = new Date(vars.mtime);
+  const simple: Record<string, string> = {
+    noteName: vars.noteName,
+    noteFolder: vars.noteFolder,
+    ext: vars.ext,
+    basename: vars.basename,
+    yyyy: String(date.getFullYear()),
+    MM: two(date.getMonth() + 1),
+    dd: two(date.getDate()),
+    zone: vars.zone,
+  };
+
+  const errors: string[] = [];
+  const rendered = template.replace(VAR_RE, (_m, name: string) => {
+    const n = name.trim();
+    if (n.startsWith("fm.")) {
+      const v = fmValue(vars.frontmatter, n.slice(3));
+      if (v === null) errors.push(`frontmatter field "${n.slice(3)}" is missing or empty`);
+      return v ?? "";
+    }
+    return simple[n] ?? "";
+  });
+  if (errors.length > 0) return { error: errors[0] };
+
+  // empty segments come from empty variables (noteFolder at the vault root)
+  const illegal = folderPathError(rendered);
+  if (illegal) return { error: illegal };
+
+  return { folder: folderSegments(rendered).join("/") };
+}
+
+function folderSegments(path: string): string[] {
+  return path.replace(/\\/g, "/").split("/").map((s) => s.trim()).filter(Boolean);
+}
+
+/** Why a folder path can't be created in the vault ("." / ".." segments, illegal characters); null if fine */
+export function folderPathError(path: string): string | null {
+  for (const seg of folderSegments(path)) {
+    if (seg === "." || seg === "..") return `"${seg}" is not allowed in ${path}`;
+    const bad = ILLEGAL_CHARS.exec(seg);
+    if (bad) return `illegal character "${bad[0]}" in ${path}`;
+    if (seg.endsWith(".")) return `folder name ends with "." in ${path}`;
+  }
+  return null;
+}
@@ -0,0 +1,78 @@
+import { FuzzySuggestModal, normalizePath } from "obsidian";
+import type { App } from "obsidian";
+import type { Profile } from "./main";
+
+/** Folders a profile organizes, labelled for messages ("" = vault root) */
+function foldersOf(p: Profile): { label: string; path: string }[] {
+  const out = [
+    { label: "Workspace", path: p.zoneA },
+    { label: "Staging", path: p.zoneB },
+  ];
+  if (p.extraScanEnabled) {
+    const extra = p.extraScanFolders.filter((f) => f.trim());
+    // Extra Scan without folders covers the whole vault
+    if (extra.length === 0) out.push({ label: "Extra Scan", path: "" });
+    for (const f of extra) out.push({ label: "Extra Scan", path: f });
+  }
+  return out
+    .map((f) => ({ ...f, path: f.path.trim() ? normalizePath(f.path.trim()) : "" }))
+    .filter((f) => f.label !== "Staging" || f.path !== ""); // no staging folder set
+}
+
+function contains(outer: string, inner: string): boolean {
+  return outer === "" || inner === outer || inner.startsWith(`${outer}/`);
+}
+
+export type ProfileOverlap = {
+  profiles: [string, string];
+  message: string;
+};
+
+/** ===== Profile overlaps =====
+ * Two profiles must not organize the same files: a folder of one profile may not
+ * equal, contain or sit inside a folder of another. Returns one entry per clash.
+ */
+export function findProfileOverlaps(profiles: Profile[]): ProfileOverlap[] {
+  const out: ProfileOverlap[] = [];
+  for (let i = 0; i < profiles.length; i++) {
+    for (let j = i + 1; j < profiles.length; j++) {
+      const a = profiles[i];
+      const b = profiles[j];
+      for (const fa of foldersOf(a)) {
+        for (const fb of foldersOf(b)) {
+          if (!contains(fa.path, fb.path) && !contains(fb.path, fa.path)) continue;
+          out.push({
+            profiles: [a.name, b.name],
+            message: `${a.name} ${fa.label} "${fa.path || "/"}" overlaps ${b.name} ${fb.label} "${fb.path || "/"}"`,
+          });
+        }
+      }
+    }
+  }
+  return out;
+}
+
+/** Pick a profile by name (commands that act on one profile) */
+export class ProfileSuggestModal extends FuzzySuggestModal<string> {
+  private names: string[];
+  private onPick: (name: string) => void;
+
+  constructor(app: App, names: string[], onPick: (name: string) => void) {
+    super(app);
+    this.names = names;
+    this.onPick = onPick;
+    this.setPlaceholder("Choose a profile");
+  }
+
+  getItems(): string[] {
+    return this.names;
+  }
+
+  getItemText(name: string): string {
+    return name;
+  }
+
+  onChooseItem(name: string): void {
+    this.onPick(name);
+  }
+}
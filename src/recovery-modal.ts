@@ -0,0 +1,79 @@
+import { App, Modal } from "obsidian";
+
+export type RecoveryChoice = "finish" | "rollback" | "keep";
+
+type RecoveryInfo = {
+  timestamp: number;
+  done: string[]; // "from → to" lines already applied
+  pending: string[]; // "from → to" lines not yet applied
+};
+
+/** ===== Recovery Modal =====
+ * Shown on startup for a batch that was interrupted mid-apply.
+ * Resolves with the user's choice, or null when closed (decide later).
+ */
+export class RecoveryModal extends Modal {
+  private info: RecoveryInfo;
+  private callback: (choice: RecoveryChoice | null) => void;
+  private resolved = false;
+
+  constructor(app: App, info: RecoveryInfo, callback: (choice: RecoveryChoice | null) => void) {
+    super(app);
+    this.info = info;
+    this.callback = callback;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("katt-confirm-modal");
+
+    contentEl.createEl("h2", { text: "Unfinished organizer batch" });
+    contentEl.createEl("p", {
+      text:
+        `A batch started ${new Date(this.info.timestamp).toLocaleString()} did not finish. ` +
+        `${this.info.done.length} move(s) were applied, ${this.info.pending.length} are still pending.`,
+    });
+
+    const list = (title: string, lines: string[]) => {
+      if (lines.length === 0) return;
+      contentEl.createEl("h4", { text: title });
+      const detailsEl = contentEl.createEl("pre", { cls: "katt-confirm-details" });
+      detailsEl.setText(
+        lines.slice(0, 10).join("\n") + (lines.length > 10 ? `\n... and ${lines.length - 10} more` : "")
+      );
+    };
+    list("Applied", this.info.done);
+    list("Pending", this.info.pending);
+
+    const buttonContainer = contentEl.createDiv({ cls: "katt-confirm-buttons" });
+
+    const choose = (choice: RecoveryChoice | null) => {
+      this.resolve(choice);
+      this.close();
+    };
+
+    buttonContainer.createEl("button", { text: "Decide later" })
+      .addEventListener("click", () => choose(null));
+    buttonContainer.createEl("button", { text: "Keep as is" })
+      .addEventListener("click", () => choose("keep"));
+    buttonContainer.createEl("button", { text: "Roll back" })
+      .addEventListener("click", () => choose("rollback"));
+
+    const finishBtn = buttonContainer.createEl("button", { text: "Finish batch", cls: "mod-cta" });
+    finishBtn.addEventListener("click", () => choose("finish"));
+    finishBtn.focus();
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    // Closing with Esc counts as "decide later"
+    this.resolve(null);
+  }
+
+  private resolve(choice: RecoveryChoice | null): void {
+    if (this.resolved) return;
+    this.resolved = true;
+    this.callback(choice);
+  }
+}
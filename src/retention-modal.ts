@@ -0,0 +1,82 @@
+import { App, Modal } from "obsidian";
+
+export type RetentionCandidate = {
+  path: string;
+  size: number; // bytes
+  days: number; // whole days since the organizer moved it into Staging
+};
+
+/** ===== Retention Modal =====
+ * Lists Staging files past the retention age; the user unticks what to keep.
+ * Resolves with the paths to move to trash, or null when cancelled.
+ */
+export class RetentionModal extends Modal {
+  private candidates: RetentionCandidate[];
+  private callback: (paths: string[] | null) => void;
+  private resolved = false;
+
+  constructor(app: App, candidates: RetentionCandidate[], callback: (paths: string[] | null) => void) {
+    super(app);
+    this.candidates = candidates;
+    this.callback = callback;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("katt-confirm-modal");
+
+    contentEl.createEl("h2", { text: "Staging retention" });
+    contentEl.createEl("p", {
+      text:
+        `${this.candidates.length} file(s) in staging are past the retention age and no note references them. ` +
+        `Checked files go to the trash (system or .trash, as set in Obsidian).`,
+    });
+
+    const picked = new Set(this.candidates.map((c) => c.path));
+    const listEl = contentEl.createDiv({ cls: "katt-retention-list" });
+    for (const c of this.candidates) {
+      const row = listEl.createEl("label", { cls: "katt-retention-row" });
+      const box = row.createEl("input", { type: "checkbox" });
+      box.checked = true;
+      box.addEventListener("change", () => {
+        if (box.checked) picked.add(c.path);
+        else picked.delete(c.path);
+        trashBtn.disabled = picked.size === 0;
+      });
+      row.createSpan({ cls: "katt-retention-path", text: c.path });
+      row.createSpan({ cls: "katt-retention-meta", text: `${formatSize(c.size)} · ${c.days} d` });
+    }
+
+    const buttonContainer = contentEl.createDiv({ cls: "katt-confirm-buttons" });
+
+    buttonContainer.createEl("button", { text: "Cancel" })
+      .addEventListener("click", () => {
+        this.resolve(null);
+        this.close();
+      });
+
+    const trashBtn = buttonContainer.createEl("button", { text: "Move to trash", cls: "mod-warning" });
+    trashBtn.addEventListener("click", () => {
+      this.resolve(this.candidates.map((c) => c.path).filter((p) => picked.has(p)));
+      this.close();
+    });
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.resolve(null);
+  }
+
+  private resolve(paths: string[] | null): void {
+    if (this.resolved) return;
+    this.resolved = true;
+    this.callback(paths);
+  }
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
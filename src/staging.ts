@@ -0,0 +1,57 @@
+export type StagedRecord = {
+  stagedAt: number; // when the organizer moved the file into Staging
+  origin?: string; // path before that move
+  reason?: string; // plan reason, e.g. "orphan" or "duplicate of …"
+};
+
+/** ===== Staging manifest =====
+ * Which Staging files the organizer put there, when, from where and why.
+ * Unlike the undo history it is never trimmed, so a file can be restored to
+ * its origin after any number of later batches. Files dropped into Staging by
+ * hand have no record, so retention never touches them.
+ * Keys follow renames inside Staging and are dropped when a file leaves it.
+ */
+export class StagingLog {
+  private records = new Map<string, StagedRecord>();
+
+  /** Restore records persisted in plugin data */
+  load(records: Record<string, StagedRecord> | undefined): void {
+    const recs = records ?? {};
+    this.records = new Map(
+      Object.keys(recs)
+        .filter((k) => recs[k] && typeof recs[k].stagedAt === "number")
+        .map((k): [string, StagedRecord] => [k, recs[k]])
+    );
+  }
+
+  /** Records to persist; entries whose file no longer exists are dropped */
+  toJSON(exists: (path: string) => boolean): Record<string, StagedRecord> {
+    const out: Record<string, StagedRecord> = {};
+    for (const [path, rec] of this.records) {
+      if (exists(path)) out[path] = rec;
+    }
+    return out;
+  }
+
+  get(path: string): StagedRecord | undefined {
+    return this.records.get(path);
+  }
+
+  /** Note a file the organizer just moved into Staging (an existing record is kept) */
+  record(path: string, rec: StagedRecord): void {
+    if (!this.records.has(path)) this.records.set(path, rec);
+  }
+
+  /** Follow a rename; `stillStaged` false when the file left Staging */
+  rename(oldPath: string, newPath: string, stillStaged: boolean): boolean {
+    const rec = this.records.get(oldPath);
+    if (!rec) return false;
+    this.records.delete(oldPath);
+    if (stillStaged) this.records.set(newPath, rec);
+    return true;
+  }
+
+  forget(path: string): boolean {
+    return this.records.delete(path);
+  }
+}